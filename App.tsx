@@ -1,19 +1,24 @@
 
 import React, { createContext, useContext, useEffect, useState, useMemo } from 'react';
 import { HashRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
-import { MonthSnapshot, AppSettings, Account, Category, MonthSetup, StartingBalance } from './types';
+import { MonthSnapshot, AppSettings, Account, Category, MonthSetup, RollForwardReport, StartingBalance, BulkGenerationSummary } from './types';
 import { PayrollSettings } from './src/lib/payroll/types';
 import { storage } from './lib/storage';
-import { calculateForecast } from './lib/forecasting';
-import { roundToCents } from './lib/number';
+import { ForecastSettings } from './lib/forecasting';
+import { formatMonthLabel } from './lib/format';
+import { buildNextMonthOpening, rollForwardStartingBalances } from './lib/rollforward';
+import { BulkGenerationOptions, generateMonthRange } from './lib/bulkGenerate';
 import Dashboard from './pages/Dashboard';
 import MonthDetail from './pages/MonthDetail';
 import SettingsPage from './pages/Settings';
 import MonthlySetupPage from './pages/MonthlySetup.tsx';
 import GainLossPage from './pages/GainLoss.tsx';
+import NetWorthPage from './pages/NetWorth.tsx';
+import BudgetsPage from './pages/Budgets.tsx';
 import LoanTrackerPage from './pages/LoanTracker.tsx';
 import PayrollSettingsPage from './pages/PayrollSettings.tsx';
 import TaxTablesPage from './pages/TaxTables.tsx';
+import ScenariosPage from './pages/Scenarios.tsx';
 import { listTaxTableYears, getTaxTableSet, saveTaxTableSet } from './src/lib/payroll/taxTables';
 import { getSupabase, syncMonth, syncSettings, syncTaxTables, fetchRemoteSettings, fetchRemoteMonths, fetchRemoteTaxTables } from './lib/supabase';
 
@@ -26,6 +31,10 @@ interface AppContextType {
   updateSettings: (s: Partial<AppSettings>) => void;
   isLoading: boolean;
   refreshSnapshot: () => void;
+  rollForwardFrom: (s: MonthSnapshot) => Promise<void>;
+  rollForwardReport: RollForwardReport | null;
+  dismissRollForwardReport: () => void;
+  bulkGenerateMonths: (options: BulkGenerationOptions) => Promise<BulkGenerationSummary>;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -95,10 +104,11 @@ const INITIAL_CATEGORIES: Category[] = [
 
 const normalizeAccounts = (accounts: Account[]) => {
   return accounts.map(acc => {
-    if ((acc as any).type === 'credit_card') {
+    // Card accounts saved before statement terms existed were always treated as loans, balances included
+    if (acc.type === 'credit_card' && !acc.credit_card) {
       return { ...acc, type: 'loan', included_in_cash_forecast: false } as Account;
     }
-    if (acc.type === 'investment') {
+    if (acc.type === 'investment' || acc.type === 'credit_card') {
       return { ...acc, included_in_cash_forecast: false };
     }
     return acc;
@@ -131,14 +141,18 @@ const buildDefaultMonthSetup = (
   defaults?: {
     paycheck_schedule?: MonthSetup['paycheck_schedule'];
     paycheck_anchor_date?: string;
+    paycheck_semimonthly_days?: MonthSetup['paycheck_semimonthly_days'];
+    paycheck_business_day_roll?: MonthSetup['paycheck_business_day_roll'];
     paycheck_category_id?: string;
   }
 ): MonthSetup => {
   const defaultIncomeCategory = snapshot.categories.find(c => c.type === 'income')?.id || '';
-  const defaultDepositAccountId = snapshot.accounts.find(acc => acc.type !== 'loan')?.id || snapshot.accounts[0]?.id || '';
+  const defaultDepositAccountId = snapshot.accounts.find(acc => acc.type !== 'loan' && acc.type !== 'credit_card')?.id || snapshot.accounts[0]?.id || '';
   return {
     paycheck_schedule: defaults?.paycheck_schedule || 'monthly',
     paycheck_anchor_date: defaults?.paycheck_anchor_date || `${monthId}-01`,
+    paycheck_semimonthly_days: defaults?.paycheck_semimonthly_days,
+    paycheck_business_day_roll: defaults?.paycheck_business_day_roll,
     paycheck_deposit_splits: defaultDepositAccountId ? [{
       id: crypto.randomUUID(),
       account_id: defaultDepositAccountId,
@@ -166,11 +180,12 @@ const getPreviousMonthId = (monthId: string) => {
   return `${year}-${month.toString().padStart(2, '0')}`;
 };
 
-const buildStartingBalancesFromPreviousMonth = async (
+const buildOpeningFromPreviousMonth = async (
   monthId: string,
   accounts: Account[],
-  categories: Category[]
-) => {
+  categories: Category[],
+  forecastSettings: ForecastSettings = {}
+): Promise<Pick<MonthSnapshot, 'starting_balances' | 'card_statements'>> => {
   const previousMonthId = getPreviousMonthId(monthId);
   let previousSnapshot = await storage.getMonth(previousMonthId);
   if (!previousSnapshot) {
@@ -184,22 +199,14 @@ const buildStartingBalancesFromPreviousMonth = async (
     }
   }
   if (!previousSnapshot) {
-    return ensureStartingBalances([], accounts);
+    return { starting_balances: ensureStartingBalances([], accounts) };
   }
   const normalizedPrevious = normalizeMonthSnapshot(previousSnapshot, accounts, categories);
-  const forecastPoints = calculateForecast(normalizedPrevious);
-  if (!forecastPoints.length) {
-    return ensureStartingBalances(normalizedPrevious.starting_balances, accounts);
-  }
-  const lastPoint = forecastPoints[forecastPoints.length - 1];
-  return accounts.map(acc => ({
-    account_id: acc.id,
-    amount: roundToCents(lastPoint.balances[acc.id] ?? 0)
-  }));
+  return buildNextMonthOpening(normalizedPrevious, accounts, categories, forecastSettings);
 };
 
 const normalizePaycheckSplits = (monthSetup: MonthSetup | (MonthSetup & { paycheck_deposit_account_id?: string }), accounts: Account[]) => {
-  const cashAccounts = accounts.filter(acc => acc.type !== 'loan');
+  const cashAccounts = accounts.filter(acc => acc.type !== 'loan' && acc.type !== 'credit_card');
   const fallbackAccountId = cashAccounts[0]?.id || accounts[0]?.id || '';
   const legacyAccountId = monthSetup.paycheck_deposit_account_id || fallbackAccountId;
   let splits = Array.isArray(monthSetup.paycheck_deposit_splits) ? monthSetup.paycheck_deposit_splits : [];
@@ -283,6 +290,7 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [authEmail, setAuthEmail] = useState('');
   const [authPassword, setAuthPassword] = useState('');
   const [authStatus, setAuthStatus] = useState('');
+  const [rollForwardReport, setRollForwardReport] = useState<RollForwardReport | null>(null);
 
   const loadCloudData = async (baseSettings: AppSettings) => {
     if (!hasCloudConfig(baseSettings)) return { status: 'disabled' as const };
@@ -383,7 +391,7 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           accounts: normalizedRemoteSettings.accounts,
           categories: normalizedRemoteSettings.categories,
           transactions: [],
-          starting_balances: await buildStartingBalancesFromPreviousMonth(newMonthId, normalizedRemoteSettings.accounts, normalizedRemoteSettings.categories),
+          ...(await buildOpeningFromPreviousMonth(newMonthId, normalizedRemoteSettings.accounts, normalizedRemoteSettings.categories, normalizedRemoteSettings)),
           schema_version: 6,
           month_setup: buildDefaultMonthSetup(newMonthId, {
             id: newMonthId,
@@ -397,6 +405,8 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           }, {
             paycheck_schedule: normalizedRemoteSettings.payroll_settings.pay_cycle,
             paycheck_anchor_date: normalizedRemoteSettings.payroll_settings.paycheck_anchor_date || `${newMonthId}-01`,
+            paycheck_semimonthly_days: normalizedRemoteSettings.payroll_settings.semimonthly_days,
+            paycheck_business_day_roll: normalizedRemoteSettings.payroll_settings.pay_date_roll,
             paycheck_category_id: normalizedRemoteSettings.payroll_settings.paycheck_category_id || ''
           }),
           updated_at: Date.now(),
@@ -432,7 +442,7 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           accounts: normalizedSettings.accounts,
           categories: normalizedSettings.categories,
           transactions: [],
-          starting_balances: await buildStartingBalancesFromPreviousMonth(monthId, normalizedSettings.accounts, normalizedSettings.categories),
+          ...(await buildOpeningFromPreviousMonth(monthId, normalizedSettings.accounts, normalizedSettings.categories, normalizedSettings)),
           schema_version: 6,
           month_setup: buildDefaultMonthSetup(monthId, {
             id: monthId,
@@ -446,6 +456,8 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           }, {
             paycheck_schedule: normalizedSettings.payroll_settings.pay_cycle,
             paycheck_anchor_date: normalizedSettings.payroll_settings.paycheck_anchor_date || `${monthId}-01`,
+            paycheck_semimonthly_days: normalizedSettings.payroll_settings.semimonthly_days,
+            paycheck_business_day_roll: normalizedSettings.payroll_settings.pay_date_roll,
             paycheck_category_id: normalizedSettings.payroll_settings.paycheck_category_id || ''
           }),
           updated_at: Date.now(),
@@ -475,7 +487,7 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         accounts: accounts,
         categories: categories,
         transactions: [],
-        starting_balances: await buildStartingBalancesFromPreviousMonth(monthId, accounts, categories),
+        ...(await buildOpeningFromPreviousMonth(monthId, accounts, categories, settings)),
         schema_version: 6,
         month_setup: buildDefaultMonthSetup(monthId, {
           id: monthId,
@@ -489,6 +501,8 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
         }, {
           paycheck_schedule: settings.payroll_settings.pay_cycle,
           paycheck_anchor_date: settings.payroll_settings.paycheck_anchor_date || `${monthId}-01`,
+          paycheck_semimonthly_days: settings.payroll_settings.semimonthly_days,
+          paycheck_business_day_roll: settings.payroll_settings.pay_date_roll,
           paycheck_category_id: settings.payroll_settings.paycheck_category_id || ''
         }),
         updated_at: Date.now(),
@@ -499,11 +513,45 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     }
   };
 
+  const rollForwardFrom = async (snapshot: MonthSnapshot) => {
+    const { updated, report } = await rollForwardStartingBalances(snapshot, settings.accounts, settings.categories, settings);
+    for (const month of updated) {
+      await storage.upsertMonth(month);
+      if (hasCloudConfig(settings)) {
+        await syncMonth(month, settings);
+      }
+    }
+    setRollForwardReport(report.changed_months.length || report.stopped_at_month_id ? report : null);
+  };
+
+  const bulkGenerateMonths = async (options: BulkGenerationOptions) => {
+    const { snapshots, summary } = await generateMonthRange(options, settings);
+    for (const snapshot of snapshots) {
+      await storage.upsertMonth(snapshot);
+      if (hasCloudConfig(settings)) {
+        await syncMonth(snapshot, settings);
+      }
+    }
+    if (snapshots.length) {
+      const earlierMonthId = (await storage.listMonths())
+        .filter(id => id < snapshots[0].id)
+        .sort()
+        .at(-1);
+      const source = (earlierMonthId && await storage.getMonth(earlierMonthId)) || snapshots[0];
+      await rollForwardFrom(source);
+    }
+    if (currentSnapshot && snapshots.some(snapshot => snapshot.id === currentSnapshot.id)) {
+      await loadMonth(currentSnapshot.id);
+    }
+    return summary;
+  };
+
   const saveCurrentSnapshot = async () => {
     if (currentSnapshot) {
       const updated = { ...currentSnapshot, updated_at: Date.now() };
       await saveSnapshot(updated);
       setCurrentSnapshot(updated);
+      await rollForwardFrom(updated);
     }
   };
 
@@ -573,8 +621,12 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     saveCurrentSnapshot,
     updateSettings,
     isLoading,
-    refreshSnapshot: () => { if (currentSnapshot) loadMonth(currentSnapshot.id); }
-  }), [settings, currentSnapshot, isLoading, saveSnapshot, updateSettings]);
+    refreshSnapshot: () => { if (currentSnapshot) loadMonth(currentSnapshot.id); },
+    rollForwardFrom,
+    rollForwardReport,
+    dismissRollForwardReport: () => setRollForwardReport(null),
+    bulkGenerateMonths
+  }), [settings, currentSnapshot, isLoading, saveSnapshot, updateSettings, rollForwardReport]);
 
   if (cloudGate) {
     return (
@@ -621,7 +673,7 @@ const AppProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
 };
 
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { currentSnapshot, updateSettings, isLoading, settings } = useApp();
+  const { currentSnapshot, updateSettings, isLoading, settings, rollForwardReport, dismissRollForwardReport } = useApp();
   const location = useLocation();
   const [isSyncing, setIsSyncing] = useState(false);
   const [hasUnsynced, setHasUnsynced] = useState(false);
@@ -704,7 +756,10 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
           <nav className="hidden md:flex space-x-4">
             <Link to="/" className={`px-2 py-1 rounded transition ${location.pathname === '/' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Dashboard</Link>
             <Link to="/month" className={`px-2 py-1 rounded transition ${location.pathname === '/month' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Forecast</Link>
+            <Link to="/scenarios" className={`px-2 py-1 rounded transition ${location.pathname === '/scenarios' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Scenarios</Link>
+            <Link to="/budgets" className={`px-2 py-1 rounded transition ${location.pathname === '/budgets' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Budgets</Link>
             <Link to="/gain-loss" className={`px-2 py-1 rounded transition ${location.pathname === '/gain-loss' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Gain/Loss</Link>
+            <Link to="/net-worth" className={`px-2 py-1 rounded transition ${location.pathname === '/net-worth' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Net Worth</Link>
             <Link to="/loans" className={`px-2 py-1 rounded transition ${location.pathname === '/loans' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Loan Tracker</Link>
             <Link to="/setup" className={`px-2 py-1 rounded transition ${location.pathname === '/setup' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Monthly Setup</Link>
             <Link to="/payroll" className={`px-2 py-1 rounded transition ${location.pathname === '/payroll' ? 'bg-slate-700' : 'hover:bg-slate-700'}`}>Payroll</Link>
@@ -739,6 +794,28 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
       </header>
 
       <main className="flex-1 overflow-auto p-4 md:p-8 max-w-7xl mx-auto w-full">
+        {rollForwardReport && (
+          <div className="mb-6 text-xs text-blue-800 bg-blue-50 border border-blue-200 rounded-lg p-3 flex justify-between items-start gap-4">
+            <div className="space-y-1">
+              <p className="font-bold">
+                Opening balances rolled forward from {formatMonthLabel(rollForwardReport.source_month_id)}
+              </p>
+              {rollForwardReport.changed_months.map(month => (
+                <p key={month.month_id}>
+                  {formatMonthLabel(month.month_id)}: {month.changes.map(change => {
+                    const name = settings.accounts.find(acc => acc.id === change.account_id)?.name || change.account_id;
+                    return `${name} ${change.previous.toFixed(2)} → ${change.next.toFixed(2)}`;
+                  }).join(', ')}
+                </p>
+              ))}
+              {rollForwardReport.changed_months.length === 0 && <p>No later months needed updating.</p>}
+              {rollForwardReport.stopped_at_month_id && (
+                <p>Stopped at {formatMonthLabel(rollForwardReport.stopped_at_month_id)} (reconciled actuals).</p>
+              )}
+            </div>
+            <button type="button" onClick={dismissRollForwardReport} className="font-bold hover:text-blue-600">Dismiss</button>
+          </div>
+        )}
         {children}
       </main>
 
@@ -751,10 +828,22 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"></path></svg>
            Forecast
         </Link>
+        <Link to="/scenarios" className="text-xs flex flex-col items-center text-slate-600">
+           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4"></path></svg>
+           Scenarios
+        </Link>
+        <Link to="/budgets" className="text-xs flex flex-col items-center text-slate-600">
+           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 7h6m-6 4h6m-6 4h3M5 3h14a2 2 0 012 2v14a2 2 0 01-2 2H5a2 2 0 01-2-2V5a2 2 0 012-2z"></path></svg>
+           Budgets
+        </Link>
         <Link to="/gain-loss" className="text-xs flex flex-col items-center text-slate-600">
            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 7h8m0 0v8m0-8L9 19l-4-4-4 4"></path></svg>
            Gain/Loss
         </Link>
+        <Link to="/net-worth" className="text-xs flex flex-col items-center text-slate-600">
+           <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 6l9-3 9 3M5 6v12m14-12v12M9 10v6m6-6v6M3 20h18"></path></svg>
+           Net Worth
+        </Link>
         <Link to="/loans" className="text-xs flex flex-col items-center text-slate-600">
            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-2.21 0-4 1.79-4 4m4-4c2.21 0 4 1.79 4 4m-4-4v4m0 4a4 4 0 01-4-4m4 4a4 4 0 004-4M3 12h3m12 0h3"></path></svg>
            Loans
@@ -788,8 +877,11 @@ const App: React.FC = () => {
           <Routes>
             <Route path="/" element={<Dashboard />} />
             <Route path="/month" element={<MonthDetail />} />
+            <Route path="/scenarios" element={<ScenariosPage />} />
+            <Route path="/budgets" element={<BudgetsPage />} />
             <Route path="/setup" element={<MonthlySetupPage />} />
             <Route path="/gain-loss" element={<GainLossPage />} />
+            <Route path="/net-worth" element={<NetWorthPage />} />
             <Route path="/loans" element={<LoanTrackerPage />} />
             <Route path="/settings" element={<SettingsPage />} />
             <Route path="/payroll" element={<PayrollSettingsPage />} />
@@ -0,0 +1,275 @@
+import { BankImportDateFormat, BankImportProfile, MonthSnapshot, Transaction } from '../types';
+import { parseCsvLine } from './csv';
+import { getAccountRate } from './currency';
+import { roundToCents } from './number';
+import { ForecastSettings } from './forecasting';
+import { getAccountEffect, isCleared } from './reconciliation';
+
+export interface BankStatementRow {
+  line: number; // 1-based line in the file, or position in an OFX statement
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // Positive = Inflow, Negative = Outflow
+  import_id: string;
+}
+
+export interface BankStatementParseResult {
+  rows: BankStatementRow[];
+  skipped: number; // rows whose date or amount couldn't be read
+  missing_columns: string[]; // profile columns not found in the file
+}
+
+export type BankImportAction = 'skip' | 'new' | 'match';
+
+export interface BankImportPreviewRow {
+  row: BankStatementRow;
+  outside_month: boolean;
+  duplicate_of?: string; // existing transaction that already holds this row
+  candidates: string[]; // unmatched forecast transactions it could be, best first
+  action: BankImportAction;
+  match_id?: string;
+}
+
+const MATCH_WINDOW_DAYS = 5;
+const MATCH_AMOUNT_TOLERANCE = 0.2;
+const MAX_CANDIDATES = 3;
+
+export const createBankImportProfile = (name = 'New bank'): BankImportProfile => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    delimiter: ',',
+    has_header: true,
+    date_column: 'Date',
+    date_format: 'MM/DD/YYYY',
+    description_column: 'Description',
+    amount_mode: 'signed',
+    amount_column: 'Amount',
+    created_at: now,
+    updated_at: now
+  };
+};
+
+const buildDate = (year: number, month: number, day: number) => {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(year, month, 0).getDate()) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Anything after the date (a time, a timezone) is ignored; two-digit years are 20xx
+export const parseStatementDate = (value: string, format: BankImportDateFormat): string | null => {
+  const text = value.trim();
+  if (format === 'YYYYMMDD') {
+    const match = text.match(/^(\d{4})(\d{2})(\d{2})/);
+    return match ? buildDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+  if (format === 'YYYY-MM-DD') {
+    const match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    return match ? buildDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  }
+  const match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})(?!\d)/);
+  if (!match) return null;
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  return format === 'MM/DD/YYYY'
+    ? buildDate(year, Number(match[1]), Number(match[2]))
+    : buildDate(year, Number(match[2]), Number(match[1]));
+};
+
+// Reads "1,234.56", "1.234,56", "$12.00", "(12.00)" and "12.00-"; null when there is no number
+export const parseStatementAmount = (value: string): number | null => {
+  const text = value.trim();
+  const digits = text.replace(/[^0-9.,]/g, '');
+  if (!/\d/.test(digits)) return null;
+  const decimalComma = /,\d{1,2}$/.test(digits) && !/\.\d{1,2}$/.test(digits);
+  const normalized = decimalComma ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '');
+  const amount = Number(normalized);
+  if (!Number.isFinite(amount)) return null;
+  const negative = /^\(.*\)$/.test(text) || /^[^0-9]*-/.test(text) || text.endsWith('-');
+  return negative ? -amount : amount;
+};
+
+const resolveColumn = (column: string | undefined, header: string[] | null) => {
+  const key = (column || '').trim();
+  if (!key) return -1;
+  if (/^\d+$/.test(key)) return Number(key) - 1;
+  return header ? header.findIndex(cell => cell.toLowerCase() === key.toLowerCase()) : -1;
+};
+
+const normalizeDescription = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Same date, amount and description always fingerprint the same; repeats within one file are numbered
+export const buildImportIds = <T extends { date: string; amount: number; description: string }>(rows: T[]) => {
+  const seen = new Map<string, number>();
+  return rows.map(row => {
+    const key = `${row.date}|${row.amount.toFixed(2)}|${normalizeDescription(row.description)}`;
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return { ...row, import_id: `${key}#${count}` };
+  });
+};
+
+export const parseBankStatement = (text: string, profile: BankImportProfile): BankStatementParseResult => {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, cells: parseCsvLine(line, profile.delimiter).map(cell => cell.trim()) }))
+    .filter(entry => entry.cells.some(cell => cell !== ''));
+  const header = profile.has_header ? lines[0]?.cells || [] : null;
+  const body = profile.has_header ? lines.slice(1) : lines;
+
+  const columns = {
+    date: resolveColumn(profile.date_column, header),
+    description: resolveColumn(profile.description_column, header),
+    amount: resolveColumn(profile.amount_column, header),
+    debit: resolveColumn(profile.debit_column, header),
+    credit: resolveColumn(profile.credit_column, header)
+  };
+  const required: [string, number][] = [
+    ['date', columns.date],
+    ['description', columns.description],
+    ...(profile.amount_mode === 'debit_credit'
+      ? [['debit', columns.debit], ['credit', columns.credit]] as [string, number][]
+      : [['amount', columns.amount]] as [string, number][])
+  ];
+  const missing = required.filter(([, index]) => index < 0).map(([name]) => name);
+  if (missing.length) return { rows: [], skipped: body.length, missing_columns: missing };
+
+  let skipped = 0;
+  const parsed: Omit<BankStatementRow, 'import_id'>[] = [];
+  body.forEach(({ line, cells }) => {
+    const date = parseStatementDate(cells[columns.date] || '', profile.date_format);
+    let amount: number | null;
+    if (profile.amount_mode === 'debit_credit') {
+      const debit = parseStatementAmount(cells[columns.debit] || '');
+      const credit = parseStatementAmount(cells[columns.credit] || '');
+      amount = debit === null && credit === null ? null : Math.abs(credit || 0) - Math.abs(debit || 0);
+    } else {
+      const value = parseStatementAmount(cells[columns.amount] || '');
+      amount = value === null ? null : profile.amount_mode === 'inverted' ? -value : value;
+    }
+    if (!date || amount === null) {
+      skipped += 1;
+      return;
+    }
+    parsed.push({ line, date, description: cells[columns.description] || '', amount: roundToCents(amount) });
+  });
+  return { rows: buildImportIds(parsed), skipped, missing_columns: [] };
+};
+
+const isOfxImportId = (importId: string) => importId.startsWith('ofx:');
+
+const getDayDistance = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+
+const getWords = (text: string) => new Set<string>(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length >= 4));
+
+const sharesWord = (a: string, b: string) => {
+  const words = getWords(a);
+  return [...getWords(b)].some(word => words.has(word));
+};
+
+// Flags rows already in the month, then pairs the rest with forecast transactions they most likely are
+export const buildBankImportPreview = (
+  rows: BankStatementRow[],
+  snapshot: MonthSnapshot,
+  accountId: string,
+  forecastSettings: ForecastSettings = {}
+): BankImportPreviewRow[] => {
+  const onAccount = snapshot.transactions.filter(tx => tx.account_id === accountId || tx.transfer_account_id === accountId);
+  const claimed = new Set<string>();
+
+  return rows.map(row => {
+    const outsideMonth = !row.date.startsWith(`${snapshot.id}-`);
+    const amountOf = (tx: Transaction) => roundToCents(getAccountEffect(snapshot, tx, accountId, forecastSettings));
+    const duplicate = onAccount.find(tx => tx.import_id === row.import_id)
+      || onAccount.find(tx =>
+        tx.source !== 'generated'
+        && !tx.import_id
+        && !claimed.has(tx.id)
+        && tx.date === row.date
+        && amountOf(tx) === row.amount
+      )
+      // The same statement line imported from the other format (CSV vs OFX) carries a different id;
+      // matched forecast rows keep their forecast date, so they only need to fall within the match window
+      || onAccount.find(tx =>
+        tx.import_id
+        && isOfxImportId(tx.import_id) !== isOfxImportId(row.import_id)
+        && !claimed.has(tx.id)
+        && (tx.source === 'imported' ? tx.date === row.date : getDayDistance(tx.date, row.date) <= MATCH_WINDOW_DAYS)
+        && amountOf(tx) === row.amount
+      );
+    if (duplicate) {
+      claimed.add(duplicate.id);
+      return { row, outside_month: outsideMonth, duplicate_of: duplicate.id, candidates: [], action: 'skip' as const };
+    }
+
+    const candidates = onAccount
+      .filter(tx => tx.source === 'generated' && !tx.import_id && !isCleared(tx) && typeof tx.actual_amount !== 'number')
+      .map(tx => {
+        const amount = getAccountEffect(snapshot, tx, accountId, forecastSettings);
+        return {
+          tx,
+          days: getDayDistance(tx.date, row.date),
+          amountDiff: amount === 0 ? 1 : Math.abs(row.amount - amount) / Math.abs(amount),
+          sameDirection: Math.sign(amount) === Math.sign(row.amount),
+          named: sharesWord(tx.description, row.description)
+        };
+      })
+      .filter(entry => entry.sameDirection && entry.days <= MATCH_WINDOW_DAYS && (entry.named || entry.amountDiff <= MATCH_AMOUNT_TOLERANCE))
+      .sort((a, b) => Number(b.named) - Number(a.named) || a.amountDiff - b.amountDiff || a.days - b.days)
+      .map(entry => entry.tx.id)
+      .slice(0, MAX_CANDIDATES);
+    const matchId = outsideMonth ? undefined : candidates.find(id => !claimed.has(id));
+    if (matchId) claimed.add(matchId);
+    return {
+      row,
+      outside_month: outsideMonth,
+      candidates,
+      action: outsideMonth ? 'skip' as const : matchId ? 'match' as const : 'new' as const,
+      match_id: matchId
+    };
+  });
+};
+
+// Matched forecast rows become cleared actuals; the rest are added as cleared imported transactions
+export const applyBankImport = (
+  snapshot: MonthSnapshot,
+  preview: BankImportPreviewRow[],
+  accountId: string,
+  categoryId: string,
+  forecastSettings: ForecastSettings = {}
+) => {
+  const now = Date.now();
+  const { preferred_currency: preferred, exchange_rates: rates = [] } = forecastSettings;
+  const matches = new Map<string, BankStatementRow>(
+    preview
+      .filter(entry => entry.action === 'match' && entry.match_id)
+      .map(entry => [entry.match_id!, entry.row])
+  );
+  const updated = snapshot.transactions.map(tx => {
+    const row = matches.get(tx.id);
+    if (!row) return tx;
+    // Transfer amounts are kept in the source account's currency, so a row from the destination is converted back
+    const rate = tx.transfer_account_id === accountId && tx.account_id !== accountId
+      ? getAccountRate(snapshot.accounts, tx.account_id, accountId, preferred, rates, tx.date)
+      : 1;
+    const actual = tx.transfer_account_id ? Math.abs(row.amount) / rate * (tx.amount < 0 ? -1 : 1) : row.amount;
+    return { ...tx, actual_amount: roundToCents(actual), status: 'cleared' as const, import_id: row.import_id, updated_at: now };
+  });
+  const added: Transaction[] = preview
+    .filter(entry => entry.action === 'new')
+    .map(({ row }) => ({
+      id: crypto.randomUUID(),
+      date: row.date,
+      amount: row.amount,
+      status: 'cleared',
+      account_id: accountId,
+      transaction_type: row.amount >= 0 ? 'income' : 'expense',
+      category_id: categoryId,
+      description: row.description || 'Imported transaction',
+      created_at: now,
+      updated_at: now,
+      source: 'imported',
+      import_id: row.import_id
+    }));
+  return { transactions: [...updated, ...added], matched: matches.size, added: added.length };
+};
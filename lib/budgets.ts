@@ -0,0 +1,93 @@
+import { AppSettings, BudgetRollover, CategoryBudgetMonth, CategoryBudgetRow, MonthSnapshot, Transaction } from '../types';
+import { convertToPreferred } from './currency';
+import { buildMonthRange } from '../src/lib/month';
+import { roundToCents } from './number';
+import { isCleared } from './reconciliation';
+
+type BudgetSettings = Pick<AppSettings, 'categories' | 'preferred_currency' | 'exchange_rates'>;
+
+export interface CategoryBudgetYearRow {
+  category_id: string;
+  budget: number;
+  planned: number;
+  remaining: number; // budget minus planned over the year, before rollovers
+  months: Record<string, number | null>; // remaining per month; null when the month has no snapshot
+}
+
+const hasHappened = (tx: Transaction) => isCleared(tx) || typeof tx.actual_amount === 'number';
+
+// Spending per category as positive amounts; transfers never count against a budget
+const sumSpending = (snapshot: MonthSnapshot, settings: BudgetSettings, onlyHappened: boolean) => {
+  const totals = new Map<string, number>();
+  snapshot.transactions
+    .filter(tx => !tx.transfer_account_id && (!onlyHappened || hasHappened(tx)))
+    .forEach(tx => {
+      const account = snapshot.accounts.find(acc => acc.id === tx.account_id);
+      const amount = convertToPreferred(tx.actual_amount ?? tx.amount, account, settings, tx.date);
+      totals.set(tx.category_id, (totals.get(tx.category_id) || 0) - amount);
+    });
+  return totals;
+};
+
+const getCarryOut = (row: CategoryBudgetRow, rollover: BudgetRollover = 'none') => {
+  if (rollover === 'none') return 0;
+  return rollover === 'full' ? row.remaining : Math.max(0, row.remaining);
+};
+
+// Rollover restarts each January and at any month without a snapshot
+export const buildBudgetYear = (
+  year: number,
+  snapshots: Record<string, MonthSnapshot | null>,
+  settings: BudgetSettings
+): CategoryBudgetMonth[] => {
+  const categories = settings.categories.filter(cat => cat.type === 'expense');
+  const carry = new Map<string, number>();
+  return buildMonthRange(`${year}-01`, `${year}-12`).map(monthId => {
+    const snapshot = snapshots[monthId] || null;
+    const planned = snapshot ? sumSpending(snapshot, settings, false) : new Map<string, number>();
+    const actual = snapshot ? sumSpending(snapshot, settings, true) : new Map<string, number>();
+    const rows = categories
+      .map(cat => {
+        const budget = cat.budget_amount || 0;
+        const carriedIn = snapshot ? roundToCents(carry.get(cat.id) || 0) : 0;
+        const available = roundToCents(budget + carriedIn);
+        const plannedSpend = roundToCents(planned.get(cat.id) || 0);
+        const row: CategoryBudgetRow = {
+          category_id: cat.id,
+          budget,
+          carried_in: carriedIn,
+          available,
+          actual: roundToCents(actual.get(cat.id) || 0),
+          planned: plannedSpend,
+          remaining: roundToCents(available - plannedSpend)
+        };
+        carry.set(cat.id, snapshot ? getCarryOut(row, cat.budget_rollover) : 0);
+        return row;
+      })
+      .filter(row => row.budget !== 0 || row.carried_in !== 0 || row.planned !== 0 || row.actual !== 0);
+    return { month_id: monthId, has_snapshot: Boolean(snapshot), rows };
+  });
+};
+
+// Over/under spend per category across the months that have snapshots
+export const summarizeBudgetYear = (months: CategoryBudgetMonth[]): CategoryBudgetYearRow[] => {
+  const byCategory = new Map<string, CategoryBudgetYearRow>();
+  months.forEach(month => {
+    month.rows.forEach(row => {
+      const entry = byCategory.get(row.category_id) || {
+        category_id: row.category_id,
+        budget: 0,
+        planned: 0,
+        remaining: 0,
+        months: Object.fromEntries(months.map(item => [item.month_id, null]))
+      };
+      byCategory.set(row.category_id, entry);
+      if (!month.has_snapshot) return;
+      entry.budget = roundToCents(entry.budget + row.budget);
+      entry.planned = roundToCents(entry.planned + row.planned);
+      entry.remaining = roundToCents(entry.budget - entry.planned);
+      entry.months[month.month_id] = roundToCents(row.budget - row.planned);
+    });
+  });
+  return [...byCategory.values()];
+};
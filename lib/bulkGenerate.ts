@@ -0,0 +1,110 @@
+import { AppSettings, BulkGenerationSummary, BulkOneOffPolicy, MonthSetup, MonthSnapshot, OneOffAdjustment } from '../types';
+import { storage } from './storage';
+import { applyGenerationRun, GenerateMode, generateMonthTransactions } from './generate';
+import { buildPayrollEstimates } from './horizon';
+import { buildMonthRange } from '../src/lib/month';
+import { createHolidayLookup } from '../src/lib/businessDays';
+import { getTaxTableSet } from '../src/lib/payroll/taxTables';
+import { TaxTableSet } from '../src/lib/payroll/types';
+
+export interface BulkGenerationOptions {
+  start_month_id: string;
+  end_month_id: string;
+  template_month_id: string;
+  mode: GenerateMode;
+  one_off_policy: BulkOneOffPolicy;
+}
+
+const shiftOneOffs = (oneOffs: OneOffAdjustment[], monthId: string) => {
+  const [year, month] = monthId.split('-').map(Number);
+  const daysInMonth = new Date(year, month, 0).getDate();
+  return oneOffs.map(oneOff => {
+    const day = Math.min(Number(oneOff.date.slice(8, 10)) || 1, daysInMonth);
+    return { ...oneOff, id: crypto.randomUUID(), date: `${monthId}-${day.toString().padStart(2, '0')}` };
+  });
+};
+
+const buildRangeMonthSetup = (
+  monthId: string,
+  template: MonthSetup,
+  existing: MonthSetup | undefined,
+  policy: BulkOneOffPolicy
+): MonthSetup => {
+  const oneOffs = policy === 'copy'
+    ? shiftOneOffs(template.one_offs, monthId)
+    : policy === 'keep' ? existing?.one_offs || [] : [];
+  return {
+    paycheck_schedule: template.paycheck_schedule,
+    paycheck_anchor_date: template.paycheck_anchor_date,
+    paycheck_semimonthly_days: template.paycheck_semimonthly_days,
+    paycheck_business_day_roll: template.paycheck_business_day_roll,
+    paycheck_deposit_splits: template.paycheck_deposit_splits.map(split => ({ ...split })),
+    paycheck_category_id: template.paycheck_category_id,
+    paycheck_default_amount: template.paycheck_default_amount,
+    paycheck_estimates: existing?.paycheck_schedule === template.paycheck_schedule
+      && existing.paycheck_anchor_date === template.paycheck_anchor_date
+      && String(existing.paycheck_semimonthly_days) === String(template.paycheck_semimonthly_days)
+      && existing.paycheck_business_day_roll === template.paycheck_business_day_roll
+      ? existing.paycheck_estimates || []
+      : [],
+    paycheck_overrides: existing?.paycheck_overrides || [],
+    variable_overrides: existing?.variable_overrides || [],
+    one_offs: oneOffs,
+    last_generated_at: existing?.last_generated_at || 0,
+    generation_version: existing?.generation_version || 0,
+  };
+};
+
+// Builds generated snapshots for every month in the range; callers persist them and roll balances forward.
+export const generateMonthRange = async (
+  options: BulkGenerationOptions,
+  settings: AppSettings
+): Promise<{ snapshots: MonthSnapshot[]; summary: BulkGenerationSummary }> => {
+  const template = (await storage.getMonth(options.template_month_id))?.month_setup;
+  const summary: BulkGenerationSummary = {
+    template_month_id: options.template_month_id,
+    months: [],
+    generated_at: Date.now()
+  };
+  if (!template) return { snapshots: [], summary };
+
+  const taxTables: TaxTableSet | null = settings.payroll_settings.salary_annual
+    ? await getTaxTableSet(settings.payroll_settings.tax_year)
+    : null;
+
+  const isHoliday = createHolidayLookup(settings.holiday_calendar);
+  const snapshots: MonthSnapshot[] = [];
+  for (const monthId of buildMonthRange(options.start_month_id, options.end_month_id)) {
+    const existing = await storage.getMonth(monthId);
+    const base: MonthSnapshot = existing
+      ? { ...existing, accounts: settings.accounts, categories: settings.categories }
+      : {
+          id: monthId,
+          accounts: settings.accounts,
+          categories: settings.categories,
+          transactions: [],
+          starting_balances: settings.accounts.map(acc => ({ account_id: acc.id, amount: 0 })),
+          schema_version: 6,
+          updated_at: Date.now(),
+          device_id: 'default'
+        };
+    const baseSetup = buildRangeMonthSetup(monthId, template, existing?.month_setup, options.one_off_policy);
+    const estimates = buildPayrollEstimates(monthId, baseSetup, settings, taxTables, isHoliday);
+    const monthSetup = estimates.length ? { ...baseSetup, paycheck_estimates: estimates } : baseSetup;
+    const result = generateMonthTransactions(monthId, monthSetup, settings.recurring_items, base.transactions, options.mode, isHoliday);
+    const snapshot = {
+      ...applyGenerationRun(base, { ...result, mode: options.mode }),
+      schema_version: 6
+    };
+    const run = snapshot.generation_history![snapshot.generation_history!.length - 1];
+    snapshots.push(snapshot);
+    summary.months.push({
+      month_id: monthId,
+      created: !existing,
+      added: run.added,
+      changed: run.changed,
+      removed: run.removed
+    });
+  }
+  return { snapshots, summary };
+};
@@ -0,0 +1,93 @@
+import { Account, AppSettings, ExchangeRate } from '../types';
+import { parseCsvLine } from './csv';
+
+export const getAccountCurrency = (account: Account | undefined, preferredCurrency: string) =>
+  account?.currency || preferredCurrency;
+
+// Latest rate on or before the date, reading the pair in either direction; dates before the first entry use it
+export const getExchangeRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+  const candidates = rates
+    .filter(rate => rate.rate > 0)
+    .map(rate => {
+      if (rate.base_currency === from && rate.quote_currency === to) return { date: rate.effective_date, value: rate.rate };
+      if (rate.base_currency === to && rate.quote_currency === from) return { date: rate.effective_date, value: 1 / rate.rate };
+      return null;
+    })
+    .filter((rate): rate is { date: string; value: number } => rate !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (!candidates.length) return null;
+  const effective = candidates.filter(rate => rate.date <= date);
+  return (effective.length ? effective[effective.length - 1] : candidates[0]).value;
+};
+
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRate[],
+  date: string
+): number | null => {
+  const rate = getExchangeRate(rates, from, to, date);
+  return rate === null ? null : amount * rate;
+};
+
+// Totals are reported in the preferred currency; an amount with no rate to it is counted as-is
+export const convertToPreferred = (
+  amount: number,
+  account: Account | undefined,
+  settings: Pick<AppSettings, 'preferred_currency' | 'exchange_rates'>,
+  date: string
+) => {
+  const from = getAccountCurrency(account, settings.preferred_currency);
+  return convertAmount(amount, from, settings.preferred_currency, settings.exchange_rates || [], date) ?? amount;
+};
+
+// Rate applied when money moves between two accounts; 1 when they share a currency or no rate is known
+export const getAccountRate = (
+  accounts: Account[],
+  fromAccountId: string,
+  toAccountId: string,
+  preferredCurrency: string | undefined,
+  rates: ExchangeRate[],
+  date: string
+) => {
+  if (!preferredCurrency) return 1;
+  const from = getAccountCurrency(accounts.find(acc => acc.id === fromAccountId), preferredCurrency);
+  const to = getAccountCurrency(accounts.find(acc => acc.id === toAccountId), preferredCurrency);
+  return getExchangeRate(rates, from, to, date) ?? 1;
+};
+
+// Currencies used by accounts that have no rate to the preferred currency
+export const findMissingRates = (accounts: Account[], preferredCurrency: string, rates: ExchangeRate[], date: string) => {
+  const currencies = new Set<string>(accounts.map(acc => getAccountCurrency(acc, preferredCurrency)));
+  return [...currencies].filter(currency => getExchangeRate(rates, currency, preferredCurrency, date) === null);
+};
+
+// Rows of date,base,quote,rate (comma or tab separated); a header row and unreadable rows are skipped
+export const parseExchangeRateCsv = (text: string) => {
+  const delimiter = text.includes('\t') ? '\t' : ',';
+  const rates: ExchangeRate[] = [];
+  let skipped = 0;
+  text
+    .split(/\r?\n/)
+    .map(line => (delimiter === '\t' ? line.split('\t') : parseCsvLine(line)).map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell !== ''))
+    .forEach((row, index) => {
+      const [date, base, quote, rawRate] = row;
+      const rate = Number((rawRate || '').replace(/,/g, ''));
+      const valid = /^\d{4}-\d{2}-\d{2}$/.test(date || '') && /^[A-Za-z]{3}$/.test(base || '') && /^[A-Za-z]{3}$/.test(quote || '');
+      if (!valid || !Number.isFinite(rate) || rate <= 0) {
+        if (index > 0) skipped += 1;
+        return;
+      }
+      rates.push({
+        id: crypto.randomUUID(),
+        base_currency: base.toUpperCase(),
+        quote_currency: quote.toUpperCase(),
+        rate,
+        effective_date: date
+      });
+    });
+  return { rates, skipped };
+};
@@ -1,7 +1,69 @@
 
-import { MonthSnapshot, ForecastPoint, ForecastSummary, Transaction } from '../types';
+import { Account, AppSettings, BalanceBreach, CreditCardTerms, MonthSnapshot, ForecastPoint, ForecastSummary, HorizonForecast, SweepRule, Transaction } from '../types';
+import { convertToPreferred, getAccountRate } from './currency';
+import { roundToCents } from './number';
 
-export function calculateForecast(snapshot: MonthSnapshot): ForecastPoint[] {
+// Settings the forecast reads; without a preferred currency every account is treated as sharing one
+export type ForecastSettings = Partial<Pick<AppSettings, 'sweep_rules' | 'preferred_currency' | 'exchange_rates'>>;
+
+// The shortfall is measured in the target account's currency, the transfer in the source account's (rate = target -> source)
+
+// sourceBalance is the lowest the source gets between the sweep date and the trigger day
+const buildSweepAmount = (
+  rule: SweepRule,
+  targetBalance: number,
+  sourceBalance: number,
+  accounts: Account[],
+  rate: number
+) => {
+  const increment = rule.increment > 0 ? rule.increment : 0.01;
+  const needed = ((rule.target_balance ?? rule.threshold) - targetBalance) * rate;
+  const source = accounts.find(acc => acc.id === rule.source_account_id);
+  const available = sourceBalance - (source?.minimum_balance ?? 0);
+  let amount = Math.ceil(roundToCents(needed / increment)) * increment;
+  if (rule.max_amount > 0) {
+    amount = Math.min(amount, rule.max_amount);
+  }
+  if (amount > available) {
+    amount = Math.floor(roundToCents(available / increment)) * increment;
+  }
+  return roundToCents(amount);
+};
+
+const PAYOUT_PERIOD_MONTHS = { monthly: 1, quarterly: 3, annually: 12 };
+
+const getDailyInterestRate = (apy: number) => Math.pow(1 + apy / 100, 1 / 365) - 1;
+
+// Interest already accrued at the start of the month, assuming the opening balance was held since the period began
+const estimateCarriedInterest = (monthId: string, account: Account, openingBalance: number) => {
+  const [year, month] = monthId.split('-').map(Number);
+  const periodMonths = PAYOUT_PERIOD_MONTHS[account.interest_payout || 'monthly'];
+  const periodStartMonth = month - ((month - 1) % periodMonths);
+  const days = Math.round((new Date(year, month - 1, 1).getTime() - new Date(year, periodStartMonth - 1, 1).getTime()) / 86400000);
+  if (days <= 0 || openingBalance <= 0) return 0;
+  return openingBalance * (Math.pow(1 + getDailyInterestRate(account.interest_apy!), days) - 1);
+};
+
+const isPayoutMonth = (monthId: string, account: Account) => {
+  const month = Number(monthId.split('-')[1]);
+  return month % PAYOUT_PERIOD_MONTHS[account.interest_payout || 'monthly'] === 0;
+};
+
+// Owed amounts are positive; a card in credit (positive balance) needs no payment
+const getCardPaymentAmount = (terms: CreditCardTerms, statementBalance: number) => {
+  const owed = Math.max(0, -statementBalance);
+  if (terms.payment_policy === 'fixed') return roundToCents(Math.min(owed, terms.fixed_payment_amount || 0));
+  if (terms.payment_policy === 'minimum') {
+    const percent = owed * (terms.minimum_payment_percent ?? 2) / 100;
+    return roundToCents(Math.min(owed, Math.max(percent, terms.minimum_payment_floor ?? 25)));
+  }
+  return roundToCents(owed);
+};
+
+// Statement balances are the card balances at each card's latest closing day; a due date before this month's
+// closing pays the statement carried in (passed, else stored on the snapshot, else the opening balance).
+// Balances stay in each account's own currency; money crossing currencies converts at that day's rate.
+const runForecast = (snapshot: MonthSnapshot, forecastSettings: ForecastSettings, openingStatements?: Record<string, number>) => {
   const { transactions, starting_balances, accounts } = snapshot;
   
   // Sort transactions by date
@@ -15,9 +77,49 @@ export function calculateForecast(snapshot: MonthSnapshot): ForecastPoint[] {
   });
 
   const points: ForecastPoint[] = [];
+  const sweeps: Transaction[] = [];
+  const rates = forecastSettings.exchange_rates || [];
+  const preferredCurrency = forecastSettings.preferred_currency;
+  const rateBetween = (fromId: string, toId: string, date: string) =>
+    getAccountRate(accounts, fromId, toId, preferredCurrency, rates, date);
+  const rules = (forecastSettings.sweep_rules || []).filter(rule =>
+    rule.enabled &&
+    rule.target_account_id !== rule.source_account_id &&
+    currentBalances[rule.target_account_id] !== undefined &&
+    currentBalances[rule.source_account_id] !== undefined
+  );
+  const transferCategoryId = snapshot.categories.find(cat => cat.type === 'transfer')?.id || '';
   const yearMonth = snapshot.id;
+
+  // Interest credits already in the month (generated or entered) replace the projection for that account
+  const credited = new Set(transactions
+    .filter(tx => tx.source_item_id?.startsWith('interest:'))
+    .map(tx => tx.source_item_id!.split(':')[1]));
+  const interestAccounts = accounts.filter(acc => (acc.interest_apy || 0) > 0 && !credited.has(acc.id));
+  const accrued: Record<string, number> = {};
+  interestAccounts.forEach(acc => {
+    accrued[acc.id] = estimateCarriedInterest(yearMonth, acc, currentBalances[acc.id]);
+  });
+  const interestCredits: Transaction[] = [];
+  const interestCategoryId = (
+    snapshot.categories.find(cat => cat.type === 'income' && cat.name.toLowerCase().includes('interest'))
+    || snapshot.categories.find(cat => cat.type === 'income')
+  )?.id || '';
   const daysInMonth = new Date(parseInt(yearMonth.split('-')[0]), parseInt(yearMonth.split('-')[1]), 0).getDate();
 
+  const cards = accounts.filter(acc => acc.type === 'credit_card' && acc.credit_card);
+  const paidCards = new Set(transactions
+    .filter(tx => tx.source_item_id?.startsWith('card:'))
+    .map(tx => tx.source_item_id!.split(':')[1]));
+  const statements: Record<string, number> = {};
+  cards.forEach(acc => {
+    statements[acc.id] = (openingStatements || snapshot.card_statements)?.[acc.id] ?? currentBalances[acc.id];
+  });
+  const cardPayments: Transaction[] = [];
+  const cardPaymentCategoryId = snapshot.categories.find(cat => cat.name.toLowerCase().includes('credit card'))?.id
+    || transferCategoryId;
+  const clampDay = (day: number) => Math.min(Math.max(1, Math.floor(day) || 1), daysInMonth);
+
   // We iterate through every day of the month to generate a smooth forecast
   for (let day = 1; day <= daysInMonth; day++) {
     const dateStr = `${yearMonth}-${day.toString().padStart(2, '0')}`;
@@ -25,40 +127,242 @@ export function calculateForecast(snapshot: MonthSnapshot): ForecastPoint[] {
     // Apply transactions for this day
     const dayTransactions = sortedTx.filter(tx => tx.date === dateStr);
     dayTransactions.forEach(tx => {
+      const amount = tx.actual_amount ?? tx.amount;
       if ((tx.transaction_type === 'transfer' || tx.transfer_account_id) && tx.transfer_account_id) {
         const fromId = tx.account_id;
         const toId = tx.transfer_account_id;
-        const amt = Math.abs(tx.amount);
+        const amt = Math.abs(amount);
         if (currentBalances[fromId] !== undefined) {
           currentBalances[fromId] -= amt;
         }
         if (currentBalances[toId] !== undefined) {
-          currentBalances[toId] += amt;
+          currentBalances[toId] += amt * rateBetween(fromId, toId, dateStr);
         }
         return;
       }
       if (currentBalances[tx.account_id] !== undefined) {
-        currentBalances[tx.account_id] += tx.amount;
+        currentBalances[tx.account_id] += amount;
       }
     });
 
-    const cashAccountsTotal = accounts
-      .filter(acc => acc.included_in_cash_forecast && acc.type !== 'investment')
-      .reduce((sum, acc) => sum + (currentBalances[acc.id] || 0), 0);
+    cards.forEach(acc => {
+      const terms = acc.credit_card!;
+      if (day !== clampDay(terms.payment_due_day) || paidCards.has(acc.id)) return;
+      if (currentBalances[terms.payment_account_id] === undefined) return;
+      const amount = getCardPaymentAmount(terms, statements[acc.id]);
+      if (amount <= 0) return;
+      const paid = roundToCents(amount * rateBetween(acc.id, terms.payment_account_id, dateStr));
+      currentBalances[terms.payment_account_id] -= paid;
+      currentBalances[acc.id] += amount;
+      const now = Date.now();
+      cardPayments.push({
+        id: crypto.randomUUID(),
+        date: dateStr,
+        amount: -paid,
+        account_id: terms.payment_account_id,
+        transfer_account_id: acc.id,
+        transaction_type: 'transfer',
+        category_id: cardPaymentCategoryId,
+        description: `${acc.name} payment`,
+        created_at: now,
+        updated_at: now,
+        source: 'generated',
+        source_item_id: `card:${acc.id}:${dateStr}`
+      });
+    });
+
+    // Sweeps are dated lead_days earlier (never before the 1st), so the points already emitted since then move too
+    rules.forEach(rule => {
+      if (currentBalances[rule.target_account_id] >= rule.threshold) return;
+      const sweepDay = Math.max(1, day - Math.max(0, rule.lead_days));
+      const sweepDate = `${yearMonth}-${sweepDay.toString().padStart(2, '0')}`;
+      const rate = rateBetween(rule.source_account_id, rule.target_account_id, sweepDate);
+      const lowestSource = Math.min(
+        currentBalances[rule.source_account_id],
+        ...points.slice(sweepDay - 1).map(point => point.balances[rule.source_account_id])
+      );
+      const amount = buildSweepAmount(rule, currentBalances[rule.target_account_id], lowestSource, accounts, 1 / rate);
+      if (amount <= 0) return;
+      const received = amount * rate;
+      points.slice(sweepDay - 1).forEach(point => {
+        point.balances[rule.source_account_id] -= amount;
+        point.balances[rule.target_account_id] += received;
+      });
+      currentBalances[rule.source_account_id] -= amount;
+      currentBalances[rule.target_account_id] += received;
+      const now = Date.now();
+      sweeps.push({
+        id: crypto.randomUUID(),
+        date: sweepDate,
+        amount: -amount,
+        account_id: rule.source_account_id,
+        transfer_account_id: rule.target_account_id,
+        transaction_type: 'transfer',
+        category_id: rule.category_id || transferCategoryId,
+        description: rule.name || 'Sweep transfer',
+        created_at: now,
+        updated_at: now,
+        source: 'generated',
+        source_item_id: `sweep:${rule.id}:${sweepDate}`
+      });
+    });
+
+    interestAccounts.forEach(acc => {
+      accrued[acc.id] += Math.max(0, currentBalances[acc.id] + accrued[acc.id]) * getDailyInterestRate(acc.interest_apy!);
+      if (day !== daysInMonth || !isPayoutMonth(yearMonth, acc)) return;
+      const amount = roundToCents(accrued[acc.id]);
+      if (amount <= 0) return;
+      currentBalances[acc.id] += amount;
+      const now = Date.now();
+      interestCredits.push({
+        id: crypto.randomUUID(),
+        date: dateStr,
+        amount,
+        account_id: acc.id,
+        transaction_type: 'income',
+        category_id: interestCategoryId,
+        description: `${acc.name} interest`,
+        created_at: now,
+        updated_at: now,
+        source: 'generated',
+        source_item_id: `interest:${acc.id}:${dateStr}`
+      });
+    });
+
+    cards.forEach(acc => {
+      if (day === clampDay(acc.credit_card!.statement_closing_day)) {
+        statements[acc.id] = currentBalances[acc.id];
+      }
+    });
 
     points.push({
       date: dateStr,
       balances: { ...currentBalances },
-      total_cash: cashAccountsTotal
+      total_cash: 0
     });
   }
 
-  return points;
+  const cashAccounts = accounts.filter(acc => acc.included_in_cash_forecast && acc.type !== 'investment');
+  points.forEach(point => {
+    point.total_cash = cashAccounts.reduce((sum, acc) => {
+      const balance = point.balances[acc.id] || 0;
+      if (!preferredCurrency) return sum + balance;
+      return sum + convertToPreferred(balance, acc, { preferred_currency: preferredCurrency, exchange_rates: rates }, point.date);
+    }, 0);
+  });
+
+  return { points, sweeps, interestCredits, cardPayments, statements };
+};
+
+export function calculateForecast(
+  snapshot: MonthSnapshot,
+  forecastSettings: ForecastSettings = {},
+  cardStatements?: Record<string, number>
+): ForecastPoint[] {
+  return runForecast(snapshot, forecastSettings, cardStatements).points;
+}
+
+// Card statement balances as of the end of the month, for the next month's due dates
+export function getCardStatements(snapshot: MonthSnapshot, forecastSettings: ForecastSettings = {}): Record<string, number> {
+  return runForecast(snapshot, forecastSettings).statements;
+}
+
+// Projected closing balances and card statements, which open the following month
+export function getMonthClose(snapshot: MonthSnapshot, forecastSettings: ForecastSettings = {}) {
+  const { points, statements } = runForecast(snapshot, forecastSettings);
+  return { balances: points[points.length - 1]?.balances as Record<string, number> | undefined, statements };
+}
+
+// Transfers the sweep rules would make this month, ready to be added to the snapshot as generated transactions
+export function calculateSweepTransfers(snapshot: MonthSnapshot, forecastSettings: ForecastSettings): Transaction[] {
+  return runForecast(snapshot, forecastSettings).sweeps;
+}
+
+// Balance-driven transactions the month does not hold yet: card payments and interest credits
+export function calculateProjectedTransactions(
+  snapshot: MonthSnapshot,
+  forecastSettings: ForecastSettings = {},
+  cardStatements?: Record<string, number>
+): Transaction[] {
+  const { cardPayments, interestCredits } = runForecast(snapshot, forecastSettings, cardStatements);
+  return [...cardPayments, ...interestCredits];
+}
+
+export function calculateHorizonForecast(
+  months: { snapshot: MonthSnapshot; is_virtual: boolean }[],
+  forecastSettings: ForecastSettings = {}
+): HorizonForecast {
+  const points: ForecastPoint[] = [];
+  let carriedBalances: Record<string, number> | null = null;
+  let carriedStatements: Record<string, number> | undefined;
+  const projected: Transaction[] = [];
+
+  // Each month opens with the previous month's projected closing balances so the series stays continuous,
+  // unless its opening balances were pinned as reconciled actuals
+  months.forEach(({ snapshot }) => {
+    const chained = carriedBalances && !snapshot.starting_balances_pinned
+      ? {
+          ...snapshot,
+          starting_balances: snapshot.accounts.map(acc => ({
+            account_id: acc.id,
+            amount: carriedBalances![acc.id] ?? 0
+          }))
+        }
+      : snapshot;
+    const { points: monthPoints, statements, cardPayments, interestCredits, sweeps } = runForecast(chained, forecastSettings, carriedStatements);
+    carriedStatements = statements;
+    points.push(...monthPoints);
+    projected.push(...cardPayments, ...interestCredits, ...sweeps);
+    const lastPoint = monthPoints[monthPoints.length - 1];
+    if (lastPoint) {
+      carriedBalances = lastPoint.balances;
+    }
+  });
+
+  return {
+    points,
+    months: months.map(({ snapshot, is_virtual }) => ({ month_id: snapshot.id, is_virtual })),
+    projected
+  };
+}
+
+export function findBalanceBreaches(points: ForecastPoint[], accounts: Account[]): BalanceBreach[] {
+  const breaches: BalanceBreach[] = [];
+  accounts
+    .filter(acc => typeof acc.minimum_balance === 'number')
+    .forEach(acc => {
+      const minimum = acc.minimum_balance!;
+      let open: BalanceBreach | null = null;
+      points.forEach(point => {
+        const balance = point.balances[acc.id] ?? 0;
+        if (balance < minimum) {
+          if (!open) {
+            open = {
+              account_id: acc.id,
+              minimum_balance: minimum,
+              start_date: point.date,
+              end_date: point.date,
+              lowest_balance: balance,
+              lowest_date: point.date
+            };
+            breaches.push(open);
+          }
+          open.end_date = point.date;
+          if (balance < open.lowest_balance) {
+            open.lowest_balance = balance;
+            open.lowest_date = point.date;
+          }
+        } else {
+          open = null;
+        }
+      });
+    });
+  return breaches.sort((a, b) => a.start_date.localeCompare(b.start_date));
 }
 
-export function getForecastSummary(points: ForecastPoint[]): ForecastSummary {
+export function getForecastSummary(points: ForecastPoint[], accounts: Account[] = []): ForecastSummary {
   if (points.length === 0) {
-    return { projected_end_balance: 0, lowest_projected_balance: 0, lowest_balance_date: '' };
+    return { projected_end_balance: 0, lowest_projected_balance: 0, lowest_balance_date: '', breaches: [] };
   }
 
   const endBalance = points[points.length - 1].total_cash;
@@ -75,6 +379,7 @@ export function getForecastSummary(points: ForecastPoint[]): ForecastSummary {
   return {
     projected_end_balance: endBalance,
     lowest_projected_balance: lowestBalance === Infinity ? 0 : lowestBalance,
-    lowest_balance_date: lowestDate
+    lowest_balance_date: lowestDate,
+    breaches: findBalanceBreaches(points, accounts)
   };
 }
@@ -1,6 +1,12 @@
-import { MonthSetup, RecurringItem, Transaction } from '../types';
+import { GenerationRun, GenerationRunChange, MonthSetup, MonthSnapshot, RecurringItem, Transaction, TransactionOverrideField, TransactionOverrides } from '../types';
+import { getRecurrenceDates } from './recurrence';
+import { addMonths } from '../src/lib/month';
+import { getSemimonthlyDates } from '../src/lib/payroll/engine';
+import { SemimonthlyDays } from '../src/lib/payroll/types';
+import { BusinessDayOptions, createHolidayLookup, HolidayLookup, rollDatesIntoMonth } from '../src/lib/businessDays';
+import { calculateProjectedTransactions, ForecastSettings } from './forecasting';
 
-export type GenerateMode = 'missing' | 'regenerate' | 'reset';
+export type GenerateMode = GenerationRun['mode'];
 
 const parseDate = (value: string) => {
   const [year, month, day] = value.split('-').map(Number);
@@ -51,8 +57,12 @@ const getMonthlyDate = (monthId: string, dayRule: string, fallbackDay: number) =
   return `${monthId}-${clamped.toString().padStart(2, '0')}`;
 };
 
-export const getScheduleDates = (monthId: string, schedule: MonthSetup['paycheck_schedule'], anchorDate: string) => {
-  const { daysInMonth } = getMonthInfo(monthId);
+const getUnrolledScheduleDates = (
+  monthId: string,
+  schedule: MonthSetup['paycheck_schedule'],
+  anchorDate: string,
+  semimonthlyDays?: SemimonthlyDays
+) => {
   if (schedule === 'weekly') {
     return getDatesByInterval(monthId, anchorDate, 7);
   }
@@ -60,23 +70,135 @@ export const getScheduleDates = (monthId: string, schedule: MonthSetup['paycheck
     return getDatesByInterval(monthId, anchorDate, 14);
   }
   if (schedule === 'semimonthly') {
-    return [
-      `${monthId}-15`,
-      `${monthId}-${daysInMonth.toString().padStart(2, '0')}`
-    ];
+    return getSemimonthlyDates(monthId, semimonthlyDays);
   }
   const anchorDay = parseDate(anchorDate).getDate();
   return [getMonthlyDate(monthId, `${anchorDay}`, 1)];
 };
 
+export const getScheduleDates = (
+  monthId: string,
+  schedule: MonthSetup['paycheck_schedule'],
+  anchorDate: string,
+  semimonthlyDays?: SemimonthlyDays,
+  businessDays?: BusinessDayOptions
+) => {
+  return rollDatesIntoMonth(
+    monthId,
+    id => getUnrolledScheduleDates(id, schedule, anchorDate, semimonthlyDays),
+    businessDays
+  );
+};
+
+const getLifetimeStartDate = (item: RecurringItem) => {
+  return item.start_date || item.anchor_date || formatDate(new Date(item.created_at || Date.now()));
+};
+
+const getCadenceDates = (item: RecurringItem, monthId: string) => {
+  const anchor = item.anchor_date || `${monthId}-01`;
+  if (item.cadence === 'weekly') {
+    return getDatesByInterval(monthId, anchor, 7);
+  }
+  if (item.cadence === 'biweekly') {
+    return getDatesByInterval(monthId, anchor, 14);
+  }
+  if (item.cadence === 'custom') {
+    // Intervals and yearly rules count from a fixed date, never from the month being generated
+    return item.recurrence
+      ? getRecurrenceDates(monthId, item.recurrence, item.anchor_date || getLifetimeStartDate(item))
+      : [];
+  }
+  if (item.cadence === 'semimonthly') {
+    return getSemimonthlyDates(monthId, item.semimonthly_days);
+  }
+  const fallbackDay = parseDate(anchor).getDate();
+  return [getMonthlyDate(monthId, item.day_rule, fallbackDay)];
+};
+
+const MAX_LIFETIME_MONTHS = 1200;
+
+const isWithinLifetime = (item: RecurringItem, date: string) => {
+  if (item.start_date && date < item.start_date) return false;
+  if (item.end_date && date > item.end_date) return false;
+  return true;
+};
+
+// All dates the item occurs on from the start of its lifetime through the given date,
+// honouring start/end dates and the occurrence limit.
+export const getRecurringItemOccurrences = (item: RecurringItem, throughDate: string) => {
+  const startDate = getLifetimeStartDate(item);
+  const limitDate = item.end_date && item.end_date < throughDate ? item.end_date : throughDate;
+  const occurrences: string[] = [];
+  let monthId = startDate.slice(0, 7);
+  for (let i = 0; i < MAX_LIFETIME_MONTHS && monthId <= limitDate.slice(0, 7); i += 1) {
+    const dates = getCadenceDates(item, monthId)
+      .filter(date => date >= startDate && date <= limitDate && isWithinLifetime(item, date))
+      .sort();
+    for (const date of dates) {
+      if (item.max_occurrences && occurrences.length >= item.max_occurrences) return occurrences;
+      occurrences.push(date);
+    }
+    monthId = addMonths(monthId, 1);
+  }
+  return occurrences;
+};
+
+const getScheduledItemDates = (item: RecurringItem, monthId: string) => {
+  const dates = getCadenceDates(item, monthId).filter(date => isWithinLifetime(item, date));
+  if (!item.max_occurrences) return dates;
+  const { daysInMonth } = getMonthInfo(monthId);
+  const allowed = new Set(getRecurringItemOccurrences(item, `${monthId}-${daysInMonth.toString().padStart(2, '0')}`));
+  return dates.filter(date => allowed.has(date));
+};
+
+export const getRecurringItemDates = (item: RecurringItem, monthId: string, isHoliday?: HolidayLookup) => {
+  return rollDatesIntoMonth(monthId, id => getScheduledItemDates(item, id), {
+    roll: item.business_day_roll || 'none',
+    isHoliday: isHoliday || createHolidayLookup()
+  });
+};
+
+export const getRecurringItemLifetimeSummary = (item: RecurringItem, today: string) => {
+  if (!item.end_date && !item.max_occurrences) {
+    return { remaining: null, final_date: null };
+  }
+  const throughDate = item.end_date || `${addMonths(today.slice(0, 7), MAX_LIFETIME_MONTHS)}-01`;
+  const occurrences = getRecurringItemOccurrences(item, throughDate);
+  return {
+    remaining: occurrences.filter(date => date >= today).length,
+    final_date: occurrences[occurrences.length - 1] || null
+  };
+};
+
+const roundToCents = (value: number) => Math.round(value * 100) / 100;
+
+// Amount in effect on the given date: the latest scheduled change (or the default),
+// escalated once per full year since it took effect.
+export const resolveRecurringAmount = (item: RecurringItem, date: string) => {
+  const change = [...(item.amount_schedule || [])]
+    .filter(entry => entry.effective_date <= date)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+    .at(-1);
+  const baseAmount = change ? change.amount : item.default_amount;
+  const escalation = item.annual_escalation_percent || 0;
+  if (!escalation) return baseAmount;
+  const effective = parseDate(change?.effective_date || getLifetimeStartDate(item));
+  const current = parseDate(date);
+  let years = current.getFullYear() - effective.getFullYear();
+  if (current.getMonth() < effective.getMonth()
+    || (current.getMonth() === effective.getMonth() && current.getDate() < effective.getDate())) {
+    years -= 1;
+  }
+  if (years <= 0) return baseAmount;
+  return roundToCents(baseAmount * Math.pow(1 + escalation / 100, years));
+};
+
 const resolveAmount = (type: RecurringItem['type'], amount: number) => {
   const absolute = Math.abs(amount);
   if (type === 'income') return absolute;
   return -absolute;
 };
 
-const roundToCents = (value: number) => Math.round(value * 100) / 100;
-
 const buildPaycheckSplitTransactions = (
   entry: { date: string; amount: number; is_bonus?: boolean; description?: string },
   splits: MonthSetup['paycheck_deposit_splits'],
@@ -129,17 +251,121 @@ const buildPaycheckSplitTransactions = (
   return tx;
 };
 
+const OVERRIDE_FIELDS: TransactionOverrideField[] = [
+  'date',
+  'amount',
+  'account_id',
+  'transfer_account_id',
+  'category_id',
+  'loan_id',
+  'goal_id',
+  'description'
+];
+
+const pickOverrideFields = (tx: Transaction): TransactionOverrides => {
+  return Object.fromEntries(OVERRIDE_FIELDS.map(field => [field, tx[field]])) as TransactionOverrides;
+};
+
+const diffOverrideFields = (base: TransactionOverrides, edited: TransactionOverrides) => {
+  const overrides: TransactionOverrides = {};
+  OVERRIDE_FIELDS.forEach(field => {
+    const same = field === 'amount'
+      ? roundToCents(base.amount || 0) === roundToCents(edited.amount || 0)
+      : (base[field] || '') === (edited[field] || '');
+    if (!same) Object.assign(overrides, { [field]: edited[field] });
+  });
+  return overrides;
+};
+
+export const applyUserEdit = (previous: Transaction, edited: Transaction): Transaction => {
+  if (previous.source !== 'generated') return edited;
+  const generatedValues = previous.generated_values || pickOverrideFields(previous);
+  const overrides = diffOverrideFields(generatedValues, pickOverrideFields(edited));
+  const userModified = Object.keys(overrides).length > 0;
+  return {
+    ...edited,
+    generated_values: generatedValues,
+    overrides: userModified ? overrides : undefined,
+    user_modified: userModified || undefined,
+    source_changed: undefined
+  };
+};
+
+export const revertUserEdit = (tx: Transaction): Transaction => ({
+  ...tx,
+  ...tx.generated_values,
+  overrides: undefined,
+  user_modified: undefined,
+  source_changed: undefined,
+  updated_at: Date.now()
+});
+
+const hasActuals = (tx: Transaction) => Boolean(tx.status && tx.status !== 'pending') || typeof tx.actual_amount === 'number';
+
+// Untouched rows that come out the same keep their id, so earlier runs in the history can still find and undo them
+const keepUnchangedRows = (generated: Transaction[], existing: Transaction[]) => {
+  const untouched = new Map<string, Transaction>(
+    existing
+      .filter(tx => tx.source === 'generated' && tx.source_item_id && !tx.user_modified && !hasActuals(tx))
+      .map(tx => [tx.source_item_id!, tx])
+  );
+  return generated.map(tx => {
+    const previous = untouched.get(tx.source_item_id!);
+    return previous && !hasTransactionChanged(previous, tx) ? previous : tx;
+  });
+};
+
+const mergeUserEdits = (generated: Transaction[], existing: Transaction[]) => {
+  const keptByKey = new Map(
+    existing
+      .filter(tx => tx.source === 'generated' && (tx.user_modified || hasActuals(tx)) && tx.source_item_id)
+      .map(tx => [tx.source_item_id!, tx])
+  );
+  const merged = generated.map(tx => {
+    const kept = keptByKey.get(tx.source_item_id!);
+    if (!kept) return tx;
+    keptByKey.delete(tx.source_item_id!);
+    const nextValues = pickOverrideFields(tx);
+    const sourceChanged = kept.user_modified
+      && Object.keys(diffOverrideFields(kept.generated_values || nextValues, nextValues)).length > 0;
+    return {
+      ...tx,
+      ...kept.overrides,
+      id: kept.id,
+      notes: kept.notes,
+      created_at: kept.created_at,
+      status: kept.status,
+      actual_amount: kept.actual_amount,
+      import_id: kept.import_id,
+      user_modified: kept.user_modified,
+      overrides: kept.overrides,
+      generated_values: nextValues,
+      source_changed: kept.source_changed || sourceChanged || undefined
+    };
+  });
+  // Edited or cleared rows whose source no longer produces them are kept and flagged instead of silently dropped
+  const orphaned = [...keptByKey.values()].map(tx => ({ ...tx, source_changed: true }));
+  return [...merged, ...orphaned];
+};
+
 export function generateMonthTransactions(
   monthId: string,
   monthSetup: MonthSetup,
   recurringItems: RecurringItem[],
   existingTransactions: Transaction[],
-  mode: GenerateMode
+  mode: GenerateMode,
+  isHoliday: HolidayLookup = createHolidayLookup()
 ) {
   const generatedBatchId = crypto.randomUUID();
   const createdAt = Date.now();
 
-  const paycheckDates = getScheduleDates(monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date);
+  const paycheckDates = getScheduleDates(
+    monthId,
+    monthSetup.paycheck_schedule,
+    monthSetup.paycheck_anchor_date,
+    monthSetup.paycheck_semimonthly_days,
+    { roll: monthSetup.paycheck_business_day_roll || 'none', isHoliday }
+  );
   const buildKey = (entry: { date: string; is_bonus?: boolean }) => `${entry.date}:${entry.is_bonus ? 'bonus' : 'regular'}`;
   const estimateEntries = (monthSetup.paycheck_estimates && monthSetup.paycheck_estimates.length > 0)
     ? monthSetup.paycheck_estimates
@@ -172,34 +398,20 @@ export function generateMonthTransactions(
   const recurringTx: Transaction[] = recurringItems
     .filter(item => item.enabled)
     .flatMap(item => {
-      const amount = variableOverrides.has(item.id) ? variableOverrides.get(item.id)! : item.default_amount;
-      const anchor = item.anchor_date || `${monthId}-01`;
-      let dates: string[] = [];
-      if (item.cadence === 'weekly') {
-        dates = getDatesByInterval(monthId, anchor, 7);
-      } else if (item.cadence === 'biweekly') {
-        dates = getDatesByInterval(monthId, anchor, 14);
-      } else if (item.cadence === 'semimonthly') {
-        const { daysInMonth } = getMonthInfo(monthId);
-        dates = [
-          `${monthId}-15`,
-          `${monthId}-${daysInMonth.toString().padStart(2, '0')}`
-        ];
-      } else {
-        const fallbackDay = parseDate(anchor).getDate();
-        dates = [getMonthlyDate(monthId, item.day_rule, fallbackDay)];
-      }
+      const override = variableOverrides.get(item.id);
+      const dates = getRecurringItemDates(item, monthId, isHoliday);
 
       return dates
         .filter(date => item.category_id && item.account_id)
         .map(date => ({
           id: crypto.randomUUID(),
           date,
-          amount: resolveAmount(item.type, amount),
+          amount: resolveAmount(item.type, override ?? resolveRecurringAmount(item, date)),
           account_id: item.account_id,
           transfer_account_id: item.transfer_account_id,
           category_id: item.category_id,
           loan_id: item.loan_id,
+          goal_id: item.goal_id,
           description: item.name,
           created_at: createdAt,
           updated_at: createdAt,
@@ -207,6 +419,7 @@ export function generateMonthTransactions(
           source: 'generated',
           source_item_id: `recurring:${item.id}:${date}`,
           generated_batch_id: generatedBatchId,
+          variability: item.variability,
         }));
     });
 
@@ -227,9 +440,10 @@ export function generateMonthTransactions(
       source: 'generated',
       source_item_id: `oneoff:${adj.id}`,
       generated_batch_id: generatedBatchId,
+      variability: adj.variability,
     }));
 
-  const generatedTransactions = [...paycheckTx, ...recurringTx, ...oneOffTx];
+  const generatedTransactions = keepUnchangedRows([...paycheckTx, ...recurringTx, ...oneOffTx], existingTransactions);
 
   let nextTransactions: Transaction[] = [];
   if (mode === 'reset') {
@@ -237,7 +451,7 @@ export function generateMonthTransactions(
   } else if (mode === 'regenerate') {
     nextTransactions = [
       ...existingTransactions.filter(tx => tx.source !== 'generated'),
-      ...generatedTransactions
+      ...mergeUserEdits(generatedTransactions, existingTransactions)
     ];
   } else {
     const existingIds = new Set(existingTransactions.map(tx => tx.source_item_id).filter(Boolean));
@@ -246,6 +460,7 @@ export function generateMonthTransactions(
   }
 
   return {
+    batch_id: generatedBatchId,
     transactions: nextTransactions,
     month_setup: {
       ...monthSetup,
@@ -255,3 +470,180 @@ export function generateMonthTransactions(
     }
   };
 }
+
+export type GenerationDiffKind = 'added' | 'removed' | 'changed';
+
+export interface GenerationDiffEntry {
+  key: string; // source_item_id, or the transaction id for manual entries
+  kind: GenerationDiffKind;
+  before?: Transaction;
+  after?: Transaction;
+}
+
+const keyTransactions = (transactions: Transaction[]) => {
+  const keyed = new Map<string, Transaction>();
+  transactions.forEach(tx => {
+    const base = tx.source_item_id || tx.id;
+    let key = base;
+    for (let n = 2; keyed.has(key); n += 1) {
+      key = `${base}#${n}`;
+    }
+    keyed.set(key, tx);
+  });
+  return keyed;
+};
+
+const hasTransactionChanged = (before: Transaction, after: Transaction) => {
+  return before.date !== after.date
+    || roundToCents(before.amount) !== roundToCents(after.amount)
+    || before.account_id !== after.account_id
+    || (before.transfer_account_id || '') !== (after.transfer_account_id || '')
+    || before.category_id !== after.category_id
+    || before.description !== after.description;
+};
+
+export const diffTransactions = (existing: Transaction[], next: Transaction[]): GenerationDiffEntry[] => {
+  const before = keyTransactions(existing);
+  const after = keyTransactions(next);
+  const entries: GenerationDiffEntry[] = [];
+  after.forEach((tx, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      entries.push({ key, kind: 'added', after: tx });
+    } else if (hasTransactionChanged(previous, tx)) {
+      entries.push({ key, kind: 'changed', before: previous, after: tx });
+    }
+  });
+  before.forEach((tx, key) => {
+    if (!after.has(key)) {
+      entries.push({ key, kind: 'removed', before: tx });
+    }
+  });
+  return entries.sort((a, b) => ((a.after || a.before)!.date).localeCompare((b.after || b.before)!.date));
+};
+
+// Builds the final transaction list from a preview, keeping the existing side of every rejected row.
+export const applyTransactionDiff = (next: Transaction[], diff: GenerationDiffEntry[], rejectedKeys: Set<string>) => {
+  const rejected = diff.filter(entry => rejectedKeys.has(entry.key));
+  if (!rejected.length) return next;
+  const replacements = new Map<Transaction, Transaction | null>();
+  rejected.forEach(entry => {
+    if (entry.kind === 'added') replacements.set(entry.after!, null);
+    if (entry.kind === 'changed') replacements.set(entry.after!, entry.before!);
+  });
+  const kept = next.flatMap(tx => {
+    if (!replacements.has(tx)) return [tx];
+    const replacement = replacements.get(tx);
+    return replacement ? [replacement] : [];
+  });
+  const restored = rejected
+    .filter(entry => entry.kind === 'removed')
+    .map(entry => entry.before!);
+  return [...kept, ...restored];
+};
+
+// Card payments and interest depend on the month's daily balances, so they are projected from the generated transactions
+export const appendProjectedTransactions = (
+  snapshot: MonthSnapshot,
+  transactions: Transaction[],
+  batchId: string,
+  forecastSettings: ForecastSettings = {},
+  cardStatements?: Record<string, number>
+) => {
+  const projected = calculateProjectedTransactions({ ...snapshot, transactions }, forecastSettings, cardStatements);
+  return [...transactions, ...projected.map(tx => ({ ...tx, generated_batch_id: batchId }))];
+};
+
+export const previewMonthGeneration = (
+  monthId: string,
+  monthSetup: MonthSetup,
+  recurringItems: RecurringItem[],
+  existingTransactions: Transaction[],
+  mode: GenerateMode,
+  isHoliday?: HolidayLookup,
+  projection?: { snapshot: MonthSnapshot; settings?: ForecastSettings; card_statements?: Record<string, number> }
+) => {
+  const generated = generateMonthTransactions(monthId, monthSetup, recurringItems, existingTransactions, mode, isHoliday);
+  const result = projection
+    ? {
+        ...generated,
+        transactions: appendProjectedTransactions(
+          projection.snapshot,
+          generated.transactions,
+          generated.batch_id,
+          projection.settings,
+          projection.card_statements
+        )
+      }
+    : generated;
+  return { ...result, diff: diffTransactions(existingTransactions, result.transactions) };
+};
+
+const GENERATION_HISTORY_LIMIT = 20;
+
+const toRunChanges = (diff: GenerationDiffEntry[]): GenerationRunChange[] =>
+  diff.map(d => ({
+    kind: d.kind,
+    before: d.before,
+    after: d.after ? { id: d.after.id, updated_at: d.after.updated_at } : undefined
+  }));
+
+// Records a generation run on the snapshot and returns the snapshot with the run's results applied.
+// Only the rows the run touched are kept in history, along with the setup it used and the one it replaced.
+export const applyGenerationRun = (
+  snapshot: MonthSnapshot,
+  run: { batch_id: string; mode: GenerateMode; month_setup: MonthSetup; transactions: Transaction[] }
+): MonthSnapshot => {
+  const diff = diffTransactions(snapshot.transactions, run.transactions);
+  const entry: GenerationRun = {
+    batch_id: run.batch_id,
+    generated_at: Date.now(),
+    mode: run.mode,
+    added: diff.filter(d => d.kind === 'added').length,
+    changed: diff.filter(d => d.kind === 'changed').length,
+    removed: diff.filter(d => d.kind === 'removed').length,
+    month_setup: run.month_setup,
+    previous_month_setup: snapshot.month_setup,
+    changes: toRunChanges(diff)
+  };
+  return {
+    ...snapshot,
+    transactions: run.transactions,
+    month_setup: run.month_setup,
+    generation_history: [...(snapshot.generation_history || []), entry].slice(-GENERATION_HISTORY_LIMIT),
+    updated_at: Date.now()
+  };
+};
+
+// Rows edited, cleared or imported since the run wrote them are kept and flagged instead of being undone
+const undoGenerationRun = (transactions: Transaction[], run: GenerationRun) => {
+  const written = new Map<string, GenerationRunChange>(
+    run.changes.filter(change => change.after).map(change => [change.after!.id, change])
+  );
+  const kept = transactions.flatMap(tx => {
+    const change = written.get(tx.id);
+    if (!change) return [tx];
+    if (tx.updated_at !== change.after!.updated_at) return [{ ...tx, source_changed: true }];
+    return change.before ? [change.before] : [];
+  });
+  const present = new Set<string>(kept.map(tx => tx.id));
+  const restored = run.changes
+    .filter(change => change.kind === 'removed' && !present.has(change.before!.id))
+    .map(change => change.before!);
+  return [...kept, ...restored];
+};
+
+export const rollbackGenerationRun = (snapshot: MonthSnapshot, batchId: string): MonthSnapshot | null => {
+  const history = snapshot.generation_history || [];
+  const index = history.findIndex(run => run.batch_id === batchId);
+  if (index === -1) return null;
+  const transactions = history.slice(index).reverse().reduce(undoGenerationRun, snapshot.transactions);
+  return {
+    ...snapshot,
+    transactions,
+    // Months created by the run had no setup before it, so they keep the current one
+    month_setup: history[index].previous_month_setup || snapshot.month_setup,
+    generation_history: history.slice(0, index),
+    updated_at: Date.now()
+  };
+};
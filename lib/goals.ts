@@ -0,0 +1,86 @@
+import { MonthSnapshot, RecurringItem, SavingsGoal, SavingsGoalProgress } from '../types';
+import { ForecastSettings } from './forecasting';
+import { roundToCents } from './number';
+import { getAccountEffect } from './reconciliation';
+import { storage } from './storage';
+
+// Every stored month, with the in-memory copy of the open month replacing its saved version
+export const loadGoalSnapshots = async (current?: MonthSnapshot | null) => {
+  const ids = await storage.listMonths();
+  const months = await Promise.all(ids.filter(id => id !== current?.id).map(id => storage.getMonth(id)));
+  return [...months.filter((month): month is MonthSnapshot => month !== null), ...(current ? [current] : [])];
+};
+
+export const getGoalMonthsRemaining = (goal: SavingsGoal, today: string) => {
+  if (!goal.target_date || goal.target_date < today) return 0;
+  const [targetYear, targetMonth] = goal.target_date.split('-').map(Number);
+  const [year, month] = today.split('-').map(Number);
+  return (targetYear - year) * 12 + (targetMonth - month) + 1;
+};
+
+// Transfers into the goal's account add to it; transfers out and spending from the account draw it down
+export const buildGoalProgress = (
+  goal: SavingsGoal,
+  snapshots: MonthSnapshot[],
+  today: string,
+  forecastSettings: ForecastSettings = {}
+): SavingsGoalProgress => {
+  let saved = goal.starting_amount || 0;
+  let scheduled = 0;
+  snapshots.forEach(snapshot => {
+    snapshot.transactions
+      .filter(tx => tx.goal_id === goal.id)
+      .forEach(tx => {
+        if (tx.date <= today) {
+          saved += getAccountEffect(snapshot, tx, goal.account_id, forecastSettings);
+        } else if (!goal.target_date || tx.date <= goal.target_date) {
+          scheduled += getAccountEffect(snapshot, tx, goal.account_id, forecastSettings);
+        }
+      });
+  });
+  const remaining = Math.max(0, roundToCents(goal.target_amount - saved));
+  const monthsRemaining = getGoalMonthsRemaining(goal, today);
+  const status = remaining <= 0
+    ? 'complete'
+    : monthsRemaining === 0
+      ? 'overdue'
+      : saved + scheduled >= goal.target_amount ? 'on_track' : 'behind';
+  return {
+    goal_id: goal.id,
+    saved: roundToCents(saved),
+    scheduled: roundToCents(scheduled),
+    remaining,
+    months_remaining: monthsRemaining,
+    required_monthly: roundToCents(monthsRemaining > 0 ? remaining / monthsRemaining : remaining),
+    percent: goal.target_amount > 0 ? Math.min(100, Math.max(0, (saved / goal.target_amount) * 100)) : 100,
+    status
+  };
+};
+
+// Monthly transfer into the goal's account through the target date, tagged so generated rows count toward it
+export const buildGoalContributionItem = (
+  goal: SavingsGoal,
+  fromAccountId: string,
+  categoryId: string,
+  amount: number,
+  startDate: string
+): RecurringItem => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: `${goal.name || 'Goal'} contribution`,
+    category_id: categoryId,
+    account_id: fromAccountId,
+    transfer_account_id: goal.account_id,
+    goal_id: goal.id,
+    cadence: 'monthly',
+    default_amount: roundToCents(amount),
+    day_rule: '1',
+    type: 'transfer',
+    enabled: true,
+    start_date: startDate,
+    end_date: goal.target_date || undefined,
+    created_at: now,
+    updated_at: now
+  };
+};
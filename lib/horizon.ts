@@ -0,0 +1,133 @@
+import { AppSettings, MonthSetup, MonthSnapshot, PaycheckEntry } from '../types';
+import { storage } from './storage';
+import { generateMonthTransactions } from './generate';
+import { loadGoalSnapshots } from './goals';
+import { addMonths } from '../src/lib/month';
+import { createHolidayLookup, HolidayLookup } from '../src/lib/businessDays';
+import { roundToCents } from './number';
+import { calculatePayrollForMonth, DEFAULT_SEMIMONTHLY_DAYS } from '../src/lib/payroll/engine';
+import { getTaxTableSet } from '../src/lib/payroll/taxTables';
+import { TaxTableSet } from '../src/lib/payroll/types';
+
+export const HORIZON_OPTIONS = [1, 3, 6, 12];
+
+export const buildPayrollEstimates = (
+  monthId: string,
+  monthSetup: MonthSetup,
+  settings: AppSettings,
+  taxTables: TaxTableSet | null,
+  isHoliday: HolidayLookup
+): PaycheckEntry[] => {
+  if (!taxTables || !settings.payroll_settings.salary_annual) return [];
+  const result = calculatePayrollForMonth({
+    monthId,
+    schedule: monthSetup.paycheck_schedule,
+    anchorDate: monthSetup.paycheck_anchor_date,
+    semimonthlyDays: monthSetup.paycheck_semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS,
+    businessDays: { roll: monthSetup.paycheck_business_day_roll || 'none', isHoliday },
+    payrollSettings: settings.payroll_settings,
+    taxTables,
+  });
+  return result.paychecks.map(paycheck => ({
+    id: `estimate:${paycheck.id}`,
+    date: paycheck.date,
+    amount: roundToCents(paycheck.net),
+    is_bonus: paycheck.is_bonus,
+    description: paycheck.description || (paycheck.is_bonus ? 'Bonus' : 'Paycheck')
+  }));
+};
+
+const buildVirtualMonthSetup = (monthId: string, template: MonthSetup | undefined, settings: AppSettings): MonthSetup => {
+  const fallbackAccountId = settings.accounts.find(acc => acc.type !== 'loan' && acc.type !== 'credit_card')?.id || '';
+  return {
+    paycheck_schedule: template?.paycheck_schedule || settings.payroll_settings.pay_cycle,
+    paycheck_anchor_date: template?.paycheck_anchor_date || settings.payroll_settings.paycheck_anchor_date || `${monthId}-01`,
+    paycheck_semimonthly_days: template?.paycheck_semimonthly_days || settings.payroll_settings.semimonthly_days,
+    paycheck_business_day_roll: template?.paycheck_business_day_roll || settings.payroll_settings.pay_date_roll,
+    paycheck_deposit_splits: template?.paycheck_deposit_splits?.length
+      ? template.paycheck_deposit_splits
+      : (fallbackAccountId ? [{ id: crypto.randomUUID(), account_id: fallbackAccountId, amount: 0, is_remainder: true }] : []),
+    paycheck_category_id: template?.paycheck_category_id || settings.payroll_settings.paycheck_category_id || '',
+    paycheck_default_amount: template?.paycheck_default_amount || 0,
+    paycheck_estimates: [],
+    paycheck_overrides: [],
+    variable_overrides: [],
+    one_offs: [],
+    last_generated_at: 0,
+    generation_version: 0,
+  };
+};
+
+const buildVirtualMonth = (
+  monthId: string,
+  template: MonthSetup | undefined,
+  settings: AppSettings,
+  taxTables: TaxTableSet | null,
+  isHoliday: HolidayLookup
+): MonthSnapshot => {
+  const baseSetup = buildVirtualMonthSetup(monthId, template, settings);
+  const monthSetup = { ...baseSetup, paycheck_estimates: buildPayrollEstimates(monthId, baseSetup, settings, taxTables, isHoliday) };
+  const result = generateMonthTransactions(monthId, monthSetup, settings.recurring_items, [], 'reset', isHoliday);
+  return {
+    id: monthId,
+    accounts: settings.accounts,
+    categories: settings.categories,
+    transactions: result.transactions,
+    starting_balances: [],
+    schema_version: 6,
+    month_setup: result.month_setup,
+    updated_at: Date.now(),
+    device_id: 'virtual'
+  };
+};
+
+export const loadHorizonMonths = async (
+  startSnapshot: MonthSnapshot,
+  monthCount: number,
+  settings: AppSettings,
+  getStoredMonth: (monthId: string) => Promise<MonthSnapshot | null> = monthId => storage.getMonth(monthId)
+): Promise<{ snapshot: MonthSnapshot; is_virtual: boolean }[]> => {
+  let taxTables: TaxTableSet | null | undefined;
+  const loadTaxTables = async () => {
+    if (taxTables === undefined) {
+      taxTables = await getTaxTableSet(settings.payroll_settings.tax_year);
+    }
+    return taxTables;
+  };
+
+  const isHoliday = createHolidayLookup(settings.holiday_calendar);
+  const months: { snapshot: MonthSnapshot; is_virtual: boolean }[] = [];
+  let template = startSnapshot.month_setup;
+  for (let i = 0; i < Math.max(1, monthCount); i += 1) {
+    const monthId = addMonths(startSnapshot.id, i);
+    const stored = i === 0 ? startSnapshot : await getStoredMonth(monthId);
+    if (stored) {
+      months.push({
+        snapshot: { ...stored, accounts: settings.accounts, categories: settings.categories },
+        is_virtual: false
+      });
+      template = stored.month_setup || template;
+      continue;
+    }
+    // Missing months are generated in memory from the latest stored setup and never persisted
+    months.push({ snapshot: buildVirtualMonth(monthId, template, settings, await loadTaxTables(), isHoliday), is_virtual: true });
+  }
+
+  return months;
+};
+
+// One read serves every dashboard forecast: the horizon months and, when goals need them, all stored months
+export const loadDashboardMonths = async (
+  startSnapshot: MonthSnapshot,
+  monthCount: number,
+  settings: AppSettings,
+  includeStored: boolean
+): Promise<{ horizon: { snapshot: MonthSnapshot; is_virtual: boolean }[]; stored: MonthSnapshot[] }> => {
+  if (!includeStored) {
+    return { horizon: await loadHorizonMonths(startSnapshot, monthCount, settings), stored: [] };
+  }
+  const stored = await loadGoalSnapshots(startSnapshot);
+  const byId = new Map<string, MonthSnapshot>(stored.map(month => [month.id, month]));
+  const horizon = await loadHorizonMonths(startSnapshot, monthCount, settings, async monthId => byId.get(monthId) || null);
+  return { horizon, stored };
+};
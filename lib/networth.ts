@@ -0,0 +1,89 @@
+import { AppSettings, Loan, MonthSnapshot, NetWorthItem, NetWorthMonth, StartingBalance } from '../types';
+import { convertToPreferred } from './currency';
+import { roundToCents } from './number';
+
+type NetWorthSettings = Pick<
+  AppSettings,
+  'accounts' | 'loans' | 'gain_loss_history' | 'investment_valuations' | 'preferred_currency' | 'exchange_rates'
+>;
+
+const isAllZeroBalances = (balances: StartingBalance[]) =>
+  balances.length === 0 || balances.every(b => Number(b.amount) === 0);
+
+// Owed at the start of the month: the month's own record, else the nearest recorded balance around it
+export const getLoanBalanceForMonth = (loan: Loan, monthId: string): number | null => {
+  if (loan.origination_date && monthId < loan.origination_date.slice(0, 7)) return null;
+  const history = [...(loan.payment_history || [])].sort((a, b) => a.month_id.localeCompare(b.month_id));
+  const record = history.find(h => h.month_id === monthId);
+  if (typeof record?.balance_before === 'number') return record.balance_before;
+  const earlier = history.filter(h => h.month_id < monthId && typeof h.balance_after === 'number').at(-1);
+  if (earlier) return earlier.balance_after!;
+  const later = history.find(h => h.month_id > monthId && typeof h.balance_before === 'number');
+  if (later) return later.balance_before!;
+  return loan.current_balance;
+};
+
+// Opening balances for the month. Investment valuations win over book balances, snapshots over gain/loss history.
+// Loan-type accounts linked to a tracked loan are left out so the loan is not counted twice.
+export const buildNetWorthMonth = (
+  monthId: string,
+  snapshot: MonthSnapshot | null | undefined,
+  settings: NetWorthSettings
+): NetWorthMonth => {
+  const date = `${monthId}-01`;
+  const snapshotBalances = snapshot && !isAllZeroBalances(snapshot.starting_balances) ? snapshot.starting_balances : [];
+  const historyBalances = settings.gain_loss_history.find(entry => entry.month_id === monthId)?.balances || [];
+  const valuations = settings.investment_valuations.find(entry => entry.month_id === monthId)?.valuations || [];
+  const items: NetWorthItem[] = [];
+  const trackedAccountIds = new Set<string>(settings.loans.map(loan => loan.account_id).filter((id): id is string => Boolean(id)));
+
+  settings.accounts
+    .filter(acc => !trackedAccountIds.has(acc.id))
+    .forEach(acc => {
+      const valuation = acc.type === 'investment' ? valuations.find(v => v.account_id === acc.id) : undefined;
+      const fromSnapshot = snapshotBalances.find(b => b.account_id === acc.id);
+      const fromHistory = historyBalances.find(b => b.account_id === acc.id);
+      const entry = valuation
+        ? { source: 'valuation' as const, amount: valuation.amount }
+        : fromSnapshot
+          ? { source: 'snapshot' as const, amount: fromSnapshot.amount }
+          : fromHistory
+            ? { source: 'history' as const, amount: fromHistory.amount }
+            : null;
+      if (!entry) return;
+      // Cards owe a negative balance and can be in credit; a loan account is owed whichever sign it was entered with
+      const isLiability = acc.type === 'credit_card' || acc.type === 'loan';
+      const balance = acc.type === 'loan' ? Math.abs(entry.amount) : acc.type === 'credit_card' ? -entry.amount : entry.amount;
+      items.push({
+        id: acc.id,
+        name: acc.name,
+        kind: isLiability ? 'liability' : 'asset',
+        source: entry.source,
+        balance: roundToCents(balance),
+        value: roundToCents(convertToPreferred(balance, acc, settings, date))
+      });
+    });
+
+  settings.loans.forEach(loan => {
+    const balance = getLoanBalanceForMonth(loan, monthId);
+    if (balance === null) return;
+    items.push({
+      id: loan.id,
+      name: loan.name,
+      kind: 'liability',
+      source: 'loan',
+      balance: roundToCents(balance),
+      value: roundToCents(balance)
+    });
+  });
+
+  const assets = roundToCents(items.filter(item => item.kind === 'asset').reduce((sum, item) => sum + item.value, 0));
+  const liabilities = roundToCents(items.filter(item => item.kind === 'liability').reduce((sum, item) => sum + item.value, 0));
+  return { month_id: monthId, assets, liabilities, net_worth: roundToCents(assets - liabilities), items };
+};
+
+export const buildNetWorthTimeline = (
+  monthIds: string[],
+  snapshots: Record<string, MonthSnapshot | null>,
+  settings: NetWorthSettings
+) => monthIds.map(monthId => buildNetWorthMonth(monthId, snapshots[monthId], settings));
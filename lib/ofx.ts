@@ -0,0 +1,133 @@
+import { Account } from '../types';
+import { BankStatementRow, buildImportIds, parseStatementAmount, parseStatementDate } from './bankImport';
+import { roundToCents } from './number';
+
+export interface OfxBalance {
+  amount: number;
+  date: string; // YYYY-MM-DD
+}
+
+export interface OfxStatement {
+  account_number: string; // ACCTID as the bank sends it
+  bank_id?: string;
+  account_type: string; // CHECKING, SAVINGS, CREDITLINE, ... or CREDITCARD for card statements
+  currency?: string;
+  start_date?: string;
+  end_date?: string;
+  ledger_balance?: OfxBalance;
+  available_balance?: OfxBalance;
+  rows: BankStatementRow[];
+}
+
+interface OfxNode {
+  name: string;
+  value: string;
+  children: OfxNode[];
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) return String.fromCharCode(Number(code.slice(1)));
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+
+// OFX 1.x is SGML where leaf elements are never closed; 2.x is XML. A tag followed by text is a leaf either way,
+// and a closing tag unwinds to its matching aggregate, so both read into the same tree.
+const parseOfxTree = (text: string): OfxNode | null => {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) return null;
+  const root: OfxNode = { name: 'ROOT', value: '', children: [] };
+  const stack: OfxNode[] = [root];
+  const pattern = /<(\/?)([A-Za-z0-9._]+)[^>]*>([^<]*)/g;
+  const body = text.slice(start);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body))) {
+    const [, closing, rawName, rawText] = match;
+    const name = rawName.toUpperCase();
+    if (closing) {
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+    const node: OfxNode = { name, value: decodeEntities(rawText.trim()), children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (!node.value) stack.push(node);
+  }
+  return root;
+};
+
+const findAll = (node: OfxNode, name: string): OfxNode[] =>
+  node.children.flatMap(child => (child.name === name ? [child] : findAll(child, name)));
+
+const find = (node: OfxNode | undefined, name: string): OfxNode | undefined =>
+  node ? findAll(node, name)[0] : undefined;
+
+const readValue = (node: OfxNode | undefined, name: string) => find(node, name)?.value || '';
+
+const readDate = (value: string) => (value ? parseStatementDate(value, 'YYYYMMDD') || undefined : undefined);
+
+const readBalance = (node: OfxNode | undefined): OfxBalance | undefined => {
+  const amount = parseStatementAmount(readValue(node, 'BALAMT'));
+  const date = readDate(readValue(node, 'DTASOF'));
+  return amount === null || !date ? undefined : { amount: roundToCents(amount), date };
+};
+
+// Bank (STMTRS) and credit card (CCSTMTRS) statements; FITIDs make re-importing the same download a no-op
+export const parseOfx = (text: string): OfxStatement[] | null => {
+  const tree = parseOfxTree(text);
+  if (!tree) return null;
+  const statements = [...findAll(tree, 'STMTRS'), ...findAll(tree, 'CCSTMTRS')];
+  return statements.map(statement => {
+    const isCard = statement.name === 'CCSTMTRS';
+    const from = find(statement, isCard ? 'CCACCTFROM' : 'BANKACCTFROM');
+    const accountNumber = readValue(from, 'ACCTID');
+    const list = find(statement, 'BANKTRANLIST');
+    const transactions = list ? findAll(list, 'STMTTRN') : [];
+    const parsed = transactions
+      .map(trn => {
+        const date = readDate(readValue(trn, 'DTPOSTED'));
+        const amount = parseStatementAmount(readValue(trn, 'TRNAMT'));
+        if (!date || amount === null) return null;
+        const name = readValue(trn, 'NAME') || readValue(find(trn, 'PAYEE'), 'NAME');
+        const memo = readValue(trn, 'MEMO');
+        return {
+          fitid: readValue(trn, 'FITID'),
+          date,
+          amount: roundToCents(amount),
+          description: name && memo && !name.includes(memo) ? `${name} ${memo}` : name || memo
+        };
+      })
+      .filter((row): row is { fitid: string; date: string; amount: number; description: string } => row !== null);
+    const fingerprinted = buildImportIds(parsed);
+    return {
+      account_number: accountNumber,
+      bank_id: readValue(from, 'BANKID') || undefined,
+      account_type: isCard ? 'CREDITCARD' : readValue(from, 'ACCTTYPE').toUpperCase(),
+      currency: readValue(statement, 'CURDEF').toUpperCase() || undefined,
+      start_date: readDate(readValue(list, 'DTSTART')),
+      end_date: readDate(readValue(list, 'DTEND')),
+      ledger_balance: readBalance(find(statement, 'LEDGERBAL')),
+      available_balance: readBalance(find(statement, 'AVAILBAL')),
+      rows: fingerprinted.map((row, index) => ({
+        line: index + 1,
+        date: row.date,
+        description: row.description,
+        amount: row.amount,
+        import_id: row.fitid ? `ofx:${accountNumber}:${row.fitid}` : row.import_id
+      }))
+    };
+  });
+};
+
+// Remembered account numbers win; otherwise a single account of the matching type is assumed
+export const findOfxAccount = (statement: OfxStatement, accounts: Account[]) => {
+  const remembered = accounts.find(acc => acc.ofx_account_number && acc.ofx_account_number === statement.account_number);
+  if (remembered) return remembered;
+  const type = statement.account_type === 'CREDITCARD'
+    ? 'credit_card'
+    : statement.account_type === 'SAVINGS' || statement.account_type === 'MONEYMRKT' ? 'savings' : 'checking';
+  const ofType = accounts.filter(acc => acc.type === type && !acc.ofx_account_number);
+  return ofType.length === 1 ? ofType[0] : undefined;
+};
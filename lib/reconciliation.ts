@@ -0,0 +1,111 @@
+import { MonthSnapshot, Reconciliation, Transaction } from '../types';
+import { getAccountRate } from './currency';
+import { calculateForecast, ForecastSettings } from './forecasting';
+import { roundToCents } from './number';
+
+export interface CategoryAccuracyMonth {
+  month_id: string;
+  forecast: number;
+  actual: number;
+}
+
+export interface CategoryAccuracy {
+  category_id: string;
+  months: CategoryAccuracyMonth[];
+  forecast_total: number;
+  actual_total: number;
+  mean_absolute_percent_error: number | null; // null when no month had a forecast to compare against
+}
+
+export const isCleared = (tx: Transaction) => tx.status === 'cleared' || tx.status === 'reconciled';
+
+const isTransfer = (tx: Transaction) => Boolean(tx.transfer_account_id);
+
+// Balance change a transaction applies to one account, matching how the forecast moves transfers
+export const getAccountEffect = (
+  snapshot: MonthSnapshot,
+  tx: Transaction,
+  accountId: string,
+  forecastSettings: ForecastSettings = {}
+) => {
+  const amount = tx.actual_amount ?? tx.amount;
+  if (isTransfer(tx)) {
+    if (tx.account_id === accountId) return -Math.abs(amount);
+    if (tx.transfer_account_id === accountId) {
+      const { preferred_currency: preferred, exchange_rates: rates = [] } = forecastSettings;
+      return Math.abs(amount) * getAccountRate(snapshot.accounts, tx.account_id, accountId, preferred, rates, tx.date);
+    }
+    return 0;
+  }
+  return tx.account_id === accountId ? amount : 0;
+};
+
+export const getClearedBalance = (
+  snapshot: MonthSnapshot,
+  accountId: string,
+  date: string,
+  forecastSettings: ForecastSettings = {}
+) => {
+  const opening = snapshot.starting_balances.find(b => b.account_id === accountId)?.amount ?? 0;
+  return roundToCents(snapshot.transactions
+    .filter(tx => isCleared(tx) && tx.date <= date)
+    .reduce((sum, tx) => sum + getAccountEffect(snapshot, tx, accountId, forecastSettings), opening));
+};
+
+export const buildReconciliation = (
+  snapshot: MonthSnapshot,
+  accountId: string,
+  date: string,
+  bankBalance: number,
+  forecastSettings: ForecastSettings = {}
+): Reconciliation => {
+  const point = calculateForecast(snapshot, forecastSettings).find(p => p.date === date);
+  return {
+    id: crypto.randomUUID(),
+    account_id: accountId,
+    date,
+    bank_balance: roundToCents(bankBalance),
+    forecast_balance: roundToCents(point?.balances[accountId] ?? 0),
+    cleared_balance: getClearedBalance(snapshot, accountId, date, forecastSettings),
+    created_at: Date.now()
+  };
+};
+
+// Once the bank agrees with the cleared balance, everything cleared on the account through that date is locked in
+export const markReconciled = (transactions: Transaction[], accountId: string, date: string) => {
+  return transactions.map(tx => {
+    if (tx.status !== 'cleared' || tx.date > date) return tx;
+    if (tx.account_id !== accountId && tx.transfer_account_id !== accountId) return tx;
+    return { ...tx, status: 'reconciled' as const, updated_at: Date.now() };
+  });
+};
+
+// Compares forecast and actual amounts per category, counting only transactions that have actually happened
+export const buildCategoryAccuracy = (snapshots: MonthSnapshot[]): CategoryAccuracy[] => {
+  const byCategory = new Map<string, Map<string, CategoryAccuracyMonth>>();
+  [...snapshots].sort((a, b) => a.id.localeCompare(b.id)).forEach(snapshot => {
+    snapshot.transactions
+      .filter(tx => !isTransfer(tx) && (isCleared(tx) || typeof tx.actual_amount === 'number'))
+      .forEach(tx => {
+        const months = byCategory.get(tx.category_id) || new Map<string, CategoryAccuracyMonth>();
+        byCategory.set(tx.category_id, months);
+        const entry = months.get(snapshot.id) || { month_id: snapshot.id, forecast: 0, actual: 0 };
+        months.set(snapshot.id, entry);
+        entry.forecast = roundToCents(entry.forecast + tx.amount);
+        entry.actual = roundToCents(entry.actual + (tx.actual_amount ?? tx.amount));
+      });
+  });
+
+  return [...byCategory.entries()].map(([categoryId, months]) => {
+    const list = [...months.values()];
+    const compared = list.filter(month => month.forecast !== 0);
+    const errors = compared.map(month => Math.abs(month.actual - month.forecast) / Math.abs(month.forecast));
+    return {
+      category_id: categoryId,
+      months: list,
+      forecast_total: roundToCents(list.reduce((sum, month) => sum + month.forecast, 0)),
+      actual_total: roundToCents(list.reduce((sum, month) => sum + month.actual, 0)),
+      mean_absolute_percent_error: errors.length ? errors.reduce((sum, value) => sum + value, 0) / errors.length : null
+    };
+  });
+};
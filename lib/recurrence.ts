@@ -0,0 +1,143 @@
+import { RecurrenceRule, RecurrenceWeekday } from '../types';
+import { MONTH_LABELS } from '../src/lib/month';
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const formatOrdinal = (value: number) => {
+  if (value === -1) return 'last';
+  const suffix = value % 10 === 1 && value !== 11 ? 'st'
+    : value % 10 === 2 && value !== 12 ? 'nd'
+      : value % 10 === 3 && value !== 13 ? 'rd'
+        : 'th';
+  return `${value}${suffix}`;
+};
+
+const getNthWeekdayOfMonth = (year: number, month: number, weekday: number, ordinal: number) => {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  if (ordinal === -1) {
+    const lastWeekday = new Date(year, month - 1, daysInMonth).getDay();
+    return daysInMonth - ((lastWeekday - weekday + 7) % 7);
+  }
+  const firstWeekday = new Date(year, month - 1, 1).getDay();
+  const day = ((weekday - firstWeekday + 7) % 7) + 1 + (ordinal - 1) * 7;
+  return day <= daysInMonth ? day : null;
+};
+
+const getWeekdayDays = (year: number, month: number, weekdays: RecurrenceWeekday[]) => {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const days = new Set<number>();
+  weekdays.forEach(entry => {
+    if (entry.ordinal) {
+      const day = getNthWeekdayOfMonth(year, month, entry.weekday, entry.ordinal);
+      if (day) days.add(day);
+      return;
+    }
+    for (let day = 1; day <= daysInMonth; day += 1) {
+      if (new Date(year, month - 1, day).getDay() === entry.weekday) days.add(day);
+    }
+  });
+  return days;
+};
+
+const getMonthDays = (year: number, month: number, monthDays: number[]) => {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const days = new Set<number>();
+  monthDays.forEach(value => {
+    if (value === -1) {
+      days.add(daysInMonth);
+    } else if (value >= 1) {
+      days.add(Math.min(value, daysInMonth));
+    }
+  });
+  return days;
+};
+
+const getMatchingDays = (year: number, month: number, rule: RecurrenceRule, anchor: Date) => {
+  const hasWeekdays = Boolean(rule.by_weekday?.length);
+  const hasMonthDays = Boolean(rule.by_month_day?.length);
+  if (hasWeekdays && hasMonthDays) {
+    const monthDays = getMonthDays(year, month, rule.by_month_day!);
+    return [...getWeekdayDays(year, month, rule.by_weekday!)].filter(day => monthDays.has(day));
+  }
+  if (hasWeekdays) return [...getWeekdayDays(year, month, rule.by_weekday!)];
+  if (hasMonthDays) return [...getMonthDays(year, month, rule.by_month_day!)];
+  return [...getMonthDays(year, month, [anchor.getDate()])];
+};
+
+export const getRecurrenceDates = (monthId: string, rule: RecurrenceRule, anchorDate: string) => {
+  const [year, month] = monthId.split('-').map(Number);
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const anchor = parseDate(anchorDate);
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+
+  if (rule.by_month?.length && !rule.by_month.includes(month)) return [];
+
+  if (rule.frequency === 'weekly') {
+    const weekdays = rule.by_weekday?.length ? rule.by_weekday.map(entry => entry.weekday) : [anchor.getDay()];
+    const anchorWeekStart = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() - anchor.getDay());
+    const dates: string[] = [];
+    for (let day = 1; day <= daysInMonth; day += 1) {
+      const date = new Date(year, month - 1, day);
+      if (date < anchor || !weekdays.includes(date.getDay())) continue;
+      const weeksSinceAnchor = Math.floor(Math.round((date.getTime() - anchorWeekStart.getTime()) / DAY_MS) / 7);
+      if (weeksSinceAnchor % interval === 0) dates.push(formatDate(date));
+    }
+    return dates;
+  }
+
+  if (rule.frequency === 'monthly') {
+    const monthsSinceAnchor = (year - anchor.getFullYear()) * 12 + (month - 1 - anchor.getMonth());
+    if (monthsSinceAnchor < 0 || monthsSinceAnchor % interval !== 0) return [];
+  } else {
+    const yearsSinceAnchor = year - anchor.getFullYear();
+    if (yearsSinceAnchor < 0 || yearsSinceAnchor % interval !== 0) return [];
+    if (!rule.by_month?.length && month !== anchor.getMonth() + 1) return [];
+  }
+
+  return getMatchingDays(year, month, rule, anchor)
+    .sort((a, b) => a - b)
+    .map(day => new Date(year, month - 1, day))
+    .filter(date => date >= anchor)
+    .map(formatDate);
+};
+
+export const describeRecurrence = (rule: RecurrenceRule) => {
+  const interval = Math.max(1, Math.floor(rule.interval || 1));
+  const unit = rule.frequency === 'weekly' ? 'week' : rule.frequency === 'monthly' ? 'month' : 'year';
+  const parts = [interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`];
+  if (rule.by_month?.length) {
+    parts.push(`in ${rule.by_month.map(m => MONTH_LABELS[m - 1]).join(', ')}`);
+  }
+  if (rule.by_weekday?.length) {
+    parts.push(`on ${rule.by_weekday.map(entry => (
+      entry.ordinal ? `the ${formatOrdinal(entry.ordinal)} ${WEEKDAY_LABELS[entry.weekday]}` : WEEKDAY_LABELS[entry.weekday]
+    )).join(', ')}`);
+  }
+  if (rule.by_month_day?.length) {
+    parts.push(`on day ${rule.by_month_day.map(day => (day === -1 ? 'last' : String(day))).join(', ')}`);
+  }
+  return parts.join(' ');
+};
+
+export const parseMonthDayList = (value: string) => {
+  return value
+    .split(',')
+    .map(part => part.trim().toLowerCase())
+    .filter(Boolean)
+    .map(part => (part === 'last' ? -1 : parseInt(part, 10)))
+    .filter(day => day === -1 || (Number.isFinite(day) && day >= 1 && day <= 31));
+};
@@ -0,0 +1,81 @@
+import { Account, Category, MonthSnapshot, RollForwardMonthChange, RollForwardReport, StartingBalance } from '../types';
+import { storage } from './storage';
+import { ForecastSettings, getMonthClose } from './forecasting';
+import { roundToCents } from './number';
+
+// Starting balances and card statements the month after `snapshot` opens with
+export const buildNextMonthOpening = (
+  snapshot: MonthSnapshot,
+  accounts: Account[],
+  categories: Category[],
+  forecastSettings: ForecastSettings
+): Pick<MonthSnapshot, 'starting_balances' | 'card_statements'> => {
+  const { balances, statements } = getMonthClose({ ...snapshot, accounts, categories }, forecastSettings);
+  return {
+    starting_balances: accounts.map(acc => ({
+      account_id: acc.id,
+      amount: balances
+        ? roundToCents(balances[acc.id] ?? 0)
+        : snapshot.starting_balances.find(b => b.account_id === acc.id)?.amount ?? 0
+    })),
+    card_statements: Object.fromEntries(Object.entries(statements).map(([id, amount]) => [id, roundToCents(amount)]))
+  };
+};
+
+const diffBalances = (previous: StartingBalance[], next: StartingBalance[]) => {
+  const previousById = new Map(previous.map(b => [b.account_id, b.amount]));
+  return next
+    .map(b => ({ account_id: b.account_id, previous: previousById.get(b.account_id) ?? 0, next: b.amount }))
+    .filter(change => roundToCents(change.previous) !== roundToCents(change.next));
+};
+
+const hasStatementChanges = (previous: Record<string, number> = {}, next: Record<string, number> = {}) =>
+  Object.keys({ ...previous, ...next }).some(id =>
+    previous[id] === undefined || next[id] === undefined || roundToCents(previous[id]) !== roundToCents(next[id])
+  );
+
+export const rollForwardStartingBalances = async (
+  source: MonthSnapshot,
+  accounts: Account[],
+  categories: Category[],
+  forecastSettings: ForecastSettings = {}
+): Promise<{ updated: MonthSnapshot[]; report: RollForwardReport }> => {
+  const laterMonthIds = (await storage.listMonths())
+    .filter(id => id > source.id)
+    .sort();
+
+  const updated: MonthSnapshot[] = [];
+  const changedMonths: RollForwardMonthChange[] = [];
+  let stoppedAt: string | undefined;
+  let previous = source;
+
+  for (const monthId of laterMonthIds) {
+    const snapshot = await storage.getMonth(monthId);
+    if (!snapshot) continue;
+    if (snapshot.starting_balances_pinned) {
+      stoppedAt = monthId;
+      break;
+    }
+    const opening = buildNextMonthOpening(previous, accounts, categories, forecastSettings);
+    const changes = diffBalances(snapshot.starting_balances || [], opening.starting_balances);
+    let current = snapshot;
+    if (changes.length || hasStatementChanges(snapshot.card_statements, opening.card_statements)) {
+      current = { ...snapshot, ...opening, updated_at: Date.now() };
+      updated.push(current);
+    }
+    if (changes.length) {
+      changedMonths.push({ month_id: monthId, changes });
+    }
+    previous = current;
+  }
+
+  return {
+    updated,
+    report: {
+      source_month_id: source.id,
+      changed_months: changedMonths,
+      stopped_at_month_id: stoppedAt,
+      updated_at: Date.now()
+    }
+  };
+};
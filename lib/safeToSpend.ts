@@ -0,0 +1,92 @@
+import { Account, AppSettings, ForecastPoint, MonthSnapshot, SafeToSpend, SafeToSpendObligation, Transaction } from '../types';
+import { createHolidayLookup } from '../src/lib/businessDays';
+import { convertToPreferred } from './currency';
+import { getScheduleDates } from './generate';
+import { addMonths } from '../src/lib/month';
+import { roundToCents } from './number';
+
+// Generated paychecks give this month's pay dates; the month setup (or payroll) schedule fills in the
+// month when none are generated yet, and the following month so a late-month date still finds a payday.
+export const getUpcomingPayDates = (
+  snapshot: MonthSnapshot,
+  settings: Pick<AppSettings, 'payroll_settings' | 'holiday_calendar'>,
+  fromDate: string
+) => {
+  const monthSetup = snapshot.month_setup;
+  const payroll = settings.payroll_settings;
+  const schedule = monthSetup?.paycheck_schedule || payroll?.pay_cycle;
+  const anchor = monthSetup?.paycheck_anchor_date || payroll?.paycheck_anchor_date;
+  const businessDays = {
+    roll: monthSetup?.paycheck_business_day_roll || payroll?.pay_date_roll || 'none',
+    isHoliday: createHolidayLookup(settings.holiday_calendar)
+  };
+  const scheduled = (monthId: string) => schedule && anchor
+    ? getScheduleDates(
+        monthId,
+        schedule,
+        anchor,
+        monthSetup?.paycheck_semimonthly_days || payroll?.semimonthly_days,
+        businessDays
+      )
+    : [];
+  const generated = snapshot.transactions
+    .filter(tx => tx.source_item_id?.startsWith('paycheck:'))
+    .map(tx => tx.date);
+  const dates = [...(generated.length ? generated : scheduled(snapshot.id)), ...scheduled(addMonths(snapshot.id, 1))];
+  return [...new Set<string>(dates)].filter(date => date > fromDate).sort();
+};
+
+export const calculateSafeToSpend = (
+  points: ForecastPoint[],
+  accountId: string,
+  accounts: Account[],
+  transactions: Transaction[],
+  asOf: string,
+  nextPayday: string | null,
+  settings: Pick<AppSettings, 'preferred_currency' | 'exchange_rates'>
+): SafeToSpend | null => {
+  const window = points.filter(point => point.date >= asOf && (!nextPayday || point.date < nextPayday));
+  if (!window.length) return null;
+  const isTotal = accountId === 'total';
+  const cashAccounts = accounts.filter(acc => acc.included_in_cash_forecast && acc.type !== 'investment');
+  const inScope = (id?: string) => (isTotal ? cashAccounts.some(acc => acc.id === id) : id === accountId);
+  const account = accounts.find(acc => acc.id === accountId);
+  const balanceOf = (point: ForecastPoint) => (isTotal ? point.total_cash : point.balances[accountId] ?? 0);
+  const toDisplay = (amount: number, id: string, date: string) =>
+    isTotal ? convertToPreferred(amount, accounts.find(acc => acc.id === id), settings, date) : amount;
+
+  const buffer = isTotal
+    ? cashAccounts.reduce((sum, acc) => sum + toDisplay(acc.minimum_balance || 0, acc.id, asOf), 0)
+    : account?.minimum_balance || 0;
+  const lowest = window.reduce((low, point) => (balanceOf(point) < balanceOf(low) ? point : low), window[0]);
+  const lastDate = window[window.length - 1].date;
+
+  // Money leaving the account (or total cash) after today and before payday; transfers within scope cancel out
+  const obligations: SafeToSpendObligation[] = transactions
+    .filter(tx => tx.date > asOf && tx.date <= lastDate && inScope(tx.account_id))
+    .filter(tx => (tx.transfer_account_id ? !inScope(tx.transfer_account_id) : (tx.actual_amount ?? tx.amount) < 0))
+    .map(tx => ({
+      date: tx.date,
+      description: tx.description,
+      account_id: tx.account_id,
+      amount: roundToCents(toDisplay(Math.abs(tx.actual_amount ?? tx.amount), tx.account_id, tx.date))
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    account_id: accountId,
+    as_of: asOf,
+    next_payday: nextPayday,
+    through: lastDate,
+    current_balance: roundToCents(balanceOf(window[0])),
+    buffer: roundToCents(buffer),
+    lowest_balance: roundToCents(balanceOf(lowest)),
+    lowest_date: lowest.date,
+    safe_to_spend: Math.max(0, roundToCents(balanceOf(lowest) - buffer)),
+    obligations
+  };
+};
+
+// False when the forecast ends before the eve of payday, so bills due after it are not counted
+export const coversPayday = (entry: SafeToSpend) =>
+  !entry.next_payday || new Date(Date.parse(entry.through) + 86400000).toISOString().slice(0, 10) >= entry.next_payday;
@@ -0,0 +1,66 @@
+import { MonthSnapshot, Scenario, ScenarioRecurringOverride, Transaction, TransactionOverrides } from '../types';
+
+export const createScenario = (name: string): Scenario => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    added_transactions: [],
+    removed_transaction_ids: [],
+    modified_transactions: [],
+    recurring_overrides: [],
+    created_at: now,
+    updated_at: now
+  };
+};
+
+// Generated recurring transactions carry `recurring:<itemId>:<date>` as their source id
+export const getRecurringItemId = (tx: Transaction) => {
+  if (!tx.source_item_id?.startsWith('recurring:')) return undefined;
+  return tx.source_item_id.split(':')[1];
+};
+
+const applyRecurringOverride = (tx: Transaction, override?: ScenarioRecurringOverride) => {
+  if (!override || typeof override.amount !== 'number') return tx;
+  const magnitude = Math.abs(override.amount);
+  return { ...tx, amount: tx.amount < 0 ? -magnitude : magnitude };
+};
+
+export const applyScenario = (snapshot: MonthSnapshot, scenario: Scenario): MonthSnapshot => {
+  const removed = new Set(scenario.removed_transaction_ids);
+  const changesById = new Map<string, TransactionOverrides>(
+    scenario.modified_transactions.map(change => [change.transaction_id, change.changes])
+  );
+  const overridesByItem = new Map<string, ScenarioRecurringOverride>(
+    scenario.recurring_overrides.map(override => [override.item_id, override])
+  );
+
+  const transactions = snapshot.transactions
+    .filter(tx => !removed.has(tx.id))
+    .flatMap(tx => {
+      const itemId = getRecurringItemId(tx);
+      const override = itemId ? overridesByItem.get(itemId) : undefined;
+      if (override?.skip) return [];
+      return [{ ...applyRecurringOverride(tx, override), ...changesById.get(tx.id) }];
+    });
+
+  return { ...snapshot, transactions: [...transactions, ...scenario.added_transactions] };
+};
+
+// Across a horizon the recurring overrides apply in every month, and scenario rows dated in a later month move into it
+export const applyScenarioToHorizon = <T extends { snapshot: MonthSnapshot }>(months: T[], scenario: Scenario): T[] => {
+  const [first, ...rest] = months;
+  if (!first) return months;
+  const laterMonthIds = new Set<string>(rest.map(month => month.snapshot.id));
+  const current = applyScenario(first.snapshot, scenario);
+  const moved = current.transactions.filter(tx => laterMonthIds.has(tx.date.slice(0, 7)));
+  const overridesOnly: Scenario = { ...scenario, added_transactions: [], removed_transaction_ids: [], modified_transactions: [] };
+  return [
+    { ...first, snapshot: { ...current, transactions: current.transactions.filter(tx => !moved.includes(tx)) } },
+    ...rest.map(month => {
+      const next = applyScenario(month.snapshot, overridesOnly);
+      const arriving = moved.filter(tx => tx.date.startsWith(`${month.snapshot.id}-`));
+      return { ...month, snapshot: { ...next, transactions: [...next.transactions, ...arriving] } };
+    })
+  ];
+};
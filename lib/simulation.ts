@@ -0,0 +1,107 @@
+import { AmountVariability, ForecastBandPoint, MonthSnapshot, RangeForecast, Transaction } from '../types';
+import { calculateHorizonForecast, ForecastSettings } from './forecasting';
+import { roundToCents } from './number';
+
+export const DEFAULT_SIMULATION_RUNS = 200;
+// Upper bound on month forecasts per simulation, so long horizons trade runs for responsiveness
+const MAX_SIMULATED_MONTHS = 1200;
+const MIN_SIMULATION_RUNS = 50;
+
+export const getSimulationRuns = (monthCount: number) =>
+  Math.max(MIN_SIMULATION_RUNS, Math.min(DEFAULT_SIMULATION_RUNS, Math.floor(MAX_SIMULATED_MONTHS / Math.max(1, monthCount))));
+
+// Small seeded generator so the bands stay stable between renders
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sampleNormal = (random: () => number) => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+export const hasVariability = (variability?: AmountVariability) => {
+  if (!variability) return false;
+  return Boolean(variability.std_dev) || variability.min !== undefined || variability.max !== undefined;
+};
+
+// Drops empty fields so items without variability stay deterministic
+export const normalizeVariability = (variability: AmountVariability): AmountVariability | undefined => {
+  const next: AmountVariability = {};
+  if (variability.min !== undefined && Number.isFinite(variability.min)) next.min = Math.abs(variability.min);
+  if (variability.max !== undefined && Number.isFinite(variability.max)) next.max = Math.abs(variability.max);
+  if (variability.std_dev) next.std_dev = Math.abs(variability.std_dev);
+  return hasVariability(next) ? next : undefined;
+};
+
+const sampleMagnitude = (base: number, variability: AmountVariability, random: () => number) => {
+  const min = variability.min ?? (variability.std_dev ? 0 : base);
+  const max = variability.max ?? (variability.std_dev ? Infinity : base);
+  const value = variability.std_dev
+    ? base + sampleNormal(random) * variability.std_dev
+    : min + random() * (max - min);
+  return Math.min(Math.max(value, min, 0), max);
+};
+
+const sampleTransactions = (transactions: Transaction[], random: () => number) => {
+  return transactions.map(tx => {
+    if (!hasVariability(tx.variability)) return tx;
+    const sign = tx.amount < 0 ? -1 : 1;
+    return { ...tx, amount: sign * roundToCents(sampleMagnitude(Math.abs(tx.amount), tx.variability!, random)) };
+  });
+};
+
+const percentile = (sorted: number[], p: number) => {
+  if (!sorted.length) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+};
+
+export const simulateForecast = (
+  months: { snapshot: MonthSnapshot; is_virtual: boolean }[],
+  accountId: string,
+  forecastSettings: ForecastSettings = {},
+  runs = DEFAULT_SIMULATION_RUNS,
+  seed = 1
+): RangeForecast => {
+  const random = createRandom(seed);
+  const valuesByDay: number[][] = [];
+  let dates: string[] = [];
+  let runsBelowZero = 0;
+
+  for (let run = 0; run < runs; run += 1) {
+    const sampled = months.map(month => ({
+      ...month,
+      snapshot: { ...month.snapshot, transactions: sampleTransactions(month.snapshot.transactions, random) }
+    }));
+    const { points } = calculateHorizonForecast(sampled, forecastSettings);
+    if (run === 0) dates = points.map(point => point.date);
+    let belowZero = false;
+    points.forEach((point, index) => {
+      const value = accountId === 'total' ? point.total_cash : point.balances[accountId] || 0;
+      (valuesByDay[index] ||= []).push(value);
+      if (value < 0) belowZero = true;
+    });
+    if (belowZero) runsBelowZero += 1;
+  }
+
+  const points: ForecastBandPoint[] = dates.map((date, index) => {
+    const sorted = [...valuesByDay[index]].sort((a, b) => a - b);
+    return {
+      date,
+      p10: roundToCents(percentile(sorted, 0.1)),
+      p50: roundToCents(percentile(sorted, 0.5)),
+      p90: roundToCents(percentile(sorted, 0.9))
+    };
+  });
+
+  return { points, probability_below_zero: runs ? runsBelowZero / runs : 0, runs };
+};
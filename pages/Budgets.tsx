@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useApp } from '../App';
+import { storage } from '../lib/storage';
+import { buildBudgetYear, summarizeBudgetYear } from '../lib/budgets';
+import { formatMonthLabel } from '../lib/format';
+import { buildMonthRange, MONTH_LABELS } from '../src/lib/month';
+import { roundToCents } from '../lib/number';
+import { BudgetRollover, MonthSnapshot } from '../types';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const ROLLOVER_LABELS: Record<BudgetRollover, string> = {
+  none: 'None',
+  surplus: 'Underspend',
+  full: 'Full'
+};
+
+const BudgetsPage: React.FC = () => {
+  const { currentSnapshot, settings } = useApp();
+  const [year, setYear] = useState<number>(new Date().getFullYear());
+  const [selectedMonthId, setSelectedMonthId] = useState<string>('');
+  const [snapshots, setSnapshots] = useState<Record<string, MonthSnapshot | null>>({});
+
+  useEffect(() => {
+    if (!currentSnapshot) return;
+    setYear(Number(currentSnapshot.id.slice(0, 4)));
+    setSelectedMonthId(currentSnapshot.id);
+  }, [currentSnapshot?.id]);
+
+  const monthIds = useMemo(() => buildMonthRange(`${year}-01`, `${year}-12`), [year]);
+
+  useEffect(() => {
+    if (!monthIds.length) return;
+    let isActive = true;
+    Promise.all(
+      monthIds.map(async (monthId) => {
+        const snapshot = currentSnapshot?.id === monthId ? currentSnapshot : await storage.getMonth(monthId);
+        return { monthId, snapshot };
+      })
+    ).then((entries) => {
+      if (!isActive) return;
+      const next: Record<string, MonthSnapshot | null> = {};
+      entries.forEach(({ monthId, snapshot }) => {
+        next[monthId] = snapshot;
+      });
+      setSnapshots(next);
+    });
+    return () => { isActive = false; };
+  }, [monthIds, currentSnapshot]);
+
+  const budgetMonths = useMemo(() => buildBudgetYear(year, snapshots, settings), [year, snapshots, settings]);
+  const yearRows = useMemo(() => summarizeBudgetYear(budgetMonths), [budgetMonths]);
+
+  const formatCurrency = (val: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: settings.preferred_currency,
+    }).format(val);
+  };
+
+  const categoryName = (id: string) => settings.categories.find(cat => cat.id === id)?.name || 'Uncategorized';
+
+  if (!currentSnapshot) return null;
+
+  const selected = budgetMonths.find(month => month.month_id === selectedMonthId) || budgetMonths[0];
+  const selectedRows = selected
+    ? [...selected.rows].sort((a, b) => categoryName(a.category_id).localeCompare(categoryName(b.category_id)))
+    : [];
+  const selectedTotals = selectedRows.reduce(
+    (sum, row) => ({
+      budget: sum.budget + row.budget,
+      carried_in: sum.carried_in + row.carried_in,
+      available: sum.available + row.available,
+      actual: sum.actual + row.actual,
+      planned: sum.planned + row.planned,
+      remaining: sum.remaining + row.remaining
+    }),
+    { budget: 0, carried_in: 0, available: 0, actual: 0, planned: 0, remaining: 0 }
+  );
+  const sortedYearRows = [...yearRows].sort((a, b) => categoryName(a.category_id).localeCompare(categoryName(b.category_id)));
+  const chartData = budgetMonths
+    .filter(month => month.has_snapshot)
+    .map(month => ({
+      month_id: month.month_id,
+      budget: roundToCents(month.rows.reduce((sum, row) => sum + row.budget, 0)),
+      planned: roundToCents(month.rows.reduce((sum, row) => sum + row.planned, 0))
+    }));
+  const hasBudgets = settings.categories.some(cat => cat.type === 'expense' && (cat.budget_amount || 0) > 0);
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-0">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-extrabold text-slate-900">Budgets</h2>
+          <p className="text-slate-500">Category budgets against each month's transactions</p>
+        </div>
+        <div className="flex gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Year</label>
+            <input
+              type="number"
+              value={year}
+              onChange={(e) => {
+                const nextYear = Number(e.target.value);
+                if (!Number.isInteger(nextYear) || nextYear < 1000) return;
+                setYear(nextYear);
+                setSelectedMonthId(`${nextYear}-${selectedMonthId.slice(5) || '01'}`);
+              }}
+              className="w-28 px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Month</label>
+            <select
+              value={selected?.month_id || ''}
+              onChange={(e) => setSelectedMonthId(e.target.value)}
+              className="px-3 py-2 border rounded-lg bg-slate-50"
+            >
+              {monthIds.map(monthId => (
+                <option key={monthId} value={monthId}>{formatMonthLabel(monthId)}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {!hasBudgets && (
+        <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          No budgets yet. Set a monthly budget on expense categories in Settings.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Available</p>
+          <p className="text-2xl font-bold text-slate-800">{formatCurrency(selectedTotals.available)}</p>
+          {selectedTotals.carried_in !== 0 && (
+            <p className="text-xs text-slate-400 mt-1">Includes {formatCurrency(selectedTotals.carried_in)} rolled over</p>
+          )}
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Planned Spending</p>
+          <p className="text-2xl font-bold text-slate-800">{formatCurrency(selectedTotals.planned)}</p>
+          <p className="text-xs text-slate-400 mt-1">{formatCurrency(selectedTotals.actual)} already spent</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Remaining</p>
+          <p className={`text-2xl font-bold ${selectedTotals.remaining >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(selectedTotals.remaining)}
+          </p>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 mb-4">{formatMonthLabel(selected.month_id)} Budget vs Actual</h3>
+          {!selected.has_snapshot && (
+            <p className="text-xs text-slate-400 mb-3">This month has no forecast yet; only budgets are shown.</p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-2 font-bold">Category</th>
+                  <th className="px-4 py-2 font-bold">Rollover</th>
+                  <th className="px-4 py-2 font-bold text-right">Budget</th>
+                  <th className="px-4 py-2 font-bold text-right">Carried In</th>
+                  <th className="px-4 py-2 font-bold text-right">Actual</th>
+                  <th className="px-4 py-2 font-bold text-right">Planned</th>
+                  <th className="px-4 py-2 font-bold text-right">Remaining</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {selectedRows.map(row => {
+                  const category = settings.categories.find(cat => cat.id === row.category_id);
+                  const percent = row.available > 0 ? Math.min(100, (row.planned / row.available) * 100) : row.planned > 0 ? 100 : 0;
+                  return (
+                    <tr key={row.category_id}>
+                      <td className="px-4 py-3">
+                        <p className="font-semibold text-slate-700">{categoryName(row.category_id)}</p>
+                        <div className="h-1.5 mt-1 bg-slate-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full rounded-full ${row.remaining < 0 ? 'bg-red-500' : 'bg-blue-500'}`}
+                            style={{ width: `${percent}%` }}
+                          />
+                        </div>
+                      </td>
+                      <td className="px-4 py-3 text-slate-500">{ROLLOVER_LABELS[category?.budget_rollover || 'none']}</td>
+                      <td className="px-4 py-3 text-right">{formatCurrency(row.budget)}</td>
+                      <td className="px-4 py-3 text-right text-slate-500">{row.carried_in ? formatCurrency(row.carried_in) : '—'}</td>
+                      <td className="px-4 py-3 text-right">{formatCurrency(row.actual)}</td>
+                      <td className="px-4 py-3 text-right">{formatCurrency(row.planned)}</td>
+                      <td className={`px-4 py-3 text-right font-bold ${row.remaining >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(row.remaining)}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {selectedRows.length > 0 && (
+                  <tr className="bg-slate-50 font-bold">
+                    <td className="px-4 py-3 text-slate-700" colSpan={2}>Total</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(selectedTotals.budget)}</td>
+                    <td className="px-4 py-3 text-right text-slate-500">{formatCurrency(selectedTotals.carried_in)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(selectedTotals.actual)}</td>
+                    <td className="px-4 py-3 text-right">{formatCurrency(selectedTotals.planned)}</td>
+                    <td className={`px-4 py-3 text-right ${selectedTotals.remaining >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {formatCurrency(selectedTotals.remaining)}
+                    </td>
+                  </tr>
+                )}
+                {selectedRows.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-6 text-center text-slate-400 italic">
+                      No budgets or spending this month.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-400 mt-2">
+            Actual counts cleared transactions and entered actual amounts; planned includes the rest of the forecast.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-80">
+        <h3 className="text-lg font-bold text-slate-800 mb-4">{year} Budget vs Spending</h3>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+            <XAxis dataKey="month_id" tickFormatter={(value) => MONTH_LABELS[Number(value.slice(5)) - 1]} stroke="#94a3b8" fontSize={12} />
+            <YAxis stroke="#94a3b8" fontSize={12} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatCurrency(value), name === 'budget' ? 'Budget' : 'Spending']}
+              labelFormatter={(label) => formatMonthLabel(String(label))}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+            />
+            <Line type="monotone" dataKey="budget" stroke="#94a3b8" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+            <Line type="monotone" dataKey="planned" stroke="#2563eb" strokeWidth={3} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-4">{year} Over/Under by Category</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500">
+              <tr>
+                <th className="px-3 py-2 font-bold">Category</th>
+                {monthIds.map(monthId => (
+                  <th key={monthId} className="px-3 py-2 font-bold text-right">{MONTH_LABELS[Number(monthId.slice(5)) - 1]}</th>
+                ))}
+                <th className="px-3 py-2 font-bold text-right">Year</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sortedYearRows.map(row => (
+                <tr key={row.category_id}>
+                  <td className="px-3 py-3 font-semibold text-slate-700 whitespace-nowrap">{categoryName(row.category_id)}</td>
+                  {monthIds.map(monthId => {
+                    const value = row.months[monthId];
+                    return (
+                      <td
+                        key={monthId}
+                        className={`px-3 py-3 text-right whitespace-nowrap ${value === null ? 'text-slate-300' : value >= 0 ? 'text-green-600' : 'text-red-600'}`}
+                      >
+                        {value === null ? '—' : formatCurrency(value)}
+                      </td>
+                    );
+                  })}
+                  <td className={`px-3 py-3 text-right font-bold whitespace-nowrap ${row.remaining >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {formatCurrency(row.remaining)}
+                  </td>
+                </tr>
+              ))}
+              {sortedYearRows.length === 0 && (
+                <tr>
+                  <td colSpan={monthIds.length + 2} className="px-4 py-6 text-center text-slate-400 italic">
+                    No budgets or spending this year.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-400 mt-2">
+          Each month is its own budget minus its spending, before rollovers; green is under budget, red is over.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetsPage;
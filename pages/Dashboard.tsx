@@ -1,17 +1,151 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useApp } from '../App';
-import { calculateForecast } from '../lib/forecasting';
+import { convertToPreferred, getAccountCurrency } from '../lib/currency';
+import {
+  calculateForecast,
+  calculateHorizonForecast,
+  calculateProjectedTransactions,
+  calculateSweepTransfers,
+  findBalanceBreaches
+} from '../lib/forecasting';
+import { HORIZON_OPTIONS, loadDashboardMonths } from '../lib/horizon';
+import { getSimulationRuns, simulateForecast } from '../lib/simulation';
+import { applyScenario, applyScenarioToHorizon } from '../lib/scenarios';
+import { calculateSafeToSpend, coversPayday, getUpcomingPayDates } from '../lib/safeToSpend';
+import { buildGoalProgress } from '../lib/goals';
 import { formatMonthLabel } from '../lib/format';
-import { CartesianGrid, LineChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { buildMonthRange } from '../src/lib/month';
+import { ForecastBandPoint, ForecastPoint, MonthSnapshot, RangeForecast, SafeToSpend, SavingsGoalProgress, Transaction } from '../types';
+import { Area, CartesianGrid, ComposedChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const GOAL_STATUS_STYLES: Record<SavingsGoalProgress['status'], { label: string; bar: string; text: string }> = {
+  complete: { label: 'Complete', bar: 'bg-green-500', text: 'text-green-600' },
+  on_track: { label: 'On track', bar: 'bg-blue-500', text: 'text-blue-600' },
+  behind: { label: 'Behind', bar: 'bg-amber-500', text: 'text-amber-600' },
+  overdue: { label: 'Overdue', bar: 'bg-red-500', text: 'text-red-600' }
+};
+
+type LoadedMonth = { snapshot: MonthSnapshot; is_virtual: boolean };
+
+// The open month always comes from memory so edits show before the next load finishes
+const sliceLoadedMonths = (current: MonthSnapshot | null, loaded: LoadedMonth[] | undefined, count: number) => {
+  if (!current) return null;
+  const first = { snapshot: current, is_virtual: false };
+  if (count <= 1) return [first];
+  if (!loaded || loaded.length < count) return null;
+  return [first, ...loaded.slice(1, count)];
+};
 
 const Dashboard: React.FC = () => {
   const { currentSnapshot, settings } = useApp();
   const [selectedAccountId, setSelectedAccountId] = useState<string>('total');
+  const [horizonMonths, setHorizonMonths] = useState<number>(1);
+  const [showRange, setShowRange] = useState(false);
+  const [scenarioId, setScenarioId] = useState<string>('');
+  const [dashboardMonths, setDashboardMonths] = useState<{ horizon: LoadedMonth[]; stored: MonthSnapshot[] } | null>(null);
+  const [rangeForecast, setRangeForecast] = useState<RangeForecast | null>(null);
+  const scenario = currentSnapshot?.scenarios?.find(item => item.id === scenarioId);
+
+  const savingsGoals = settings.savings_goals || [];
+  const hasGoals = savingsGoals.length > 0;
+
+  // Spendable from today (or the first of the month) until the next payday, for total cash and each cash account
+  const safeToSpendWindow = useMemo(() => {
+    if (!currentSnapshot) return null;
+    const today = new Date().toISOString().slice(0, 10);
+    const firstDay = `${currentSnapshot.id}-01`;
+    const asOf = today < firstDay ? firstDay : today;
+    return { asOf, nextPayday: getUpcomingPayDates(currentSnapshot, settings, asOf)[0] || null };
+  }, [currentSnapshot, settings]);
+  // A payday in a later month needs the months up to it, or bills due before it would be missed
+  const paydayMonthCount = currentSnapshot && safeToSpendWindow?.nextPayday
+    ? buildMonthRange(currentSnapshot.id, safeToSpendWindow.nextPayday.slice(0, 7)).length
+    : 1;
+  const loadMonthCount = Math.max(horizonMonths, paydayMonthCount);
+
+  // The horizon, payday window and goal progress all come from this single load
+  useEffect(() => {
+    if (!currentSnapshot || (loadMonthCount <= 1 && !hasGoals)) {
+      setDashboardMonths(null);
+      return;
+    }
+    let isActive = true;
+    loadDashboardMonths(currentSnapshot, loadMonthCount, settings, hasGoals)
+      .then(result => {
+        if (isActive) setDashboardMonths(result);
+      })
+      .catch(error => {
+        // Every forecast then falls back to the current month alone
+        console.error('Dashboard months load error', error);
+        if (isActive) setDashboardMonths(null);
+      });
+    return () => { isActive = false; };
+  }, [currentSnapshot, loadMonthCount, hasGoals, settings]);
+
+  const loadedMonths = useMemo(
+    () => sliceLoadedMonths(currentSnapshot, dashboardMonths?.horizon, horizonMonths),
+    [currentSnapshot, dashboardMonths, horizonMonths]
+  );
+  const paydayMonths = useMemo(
+    () => sliceLoadedMonths(currentSnapshot, dashboardMonths?.horizon, paydayMonthCount),
+    [currentSnapshot, dashboardMonths, paydayMonthCount]
+  );
+
+  const horizon = useMemo(() => {
+    if (horizonMonths <= 1 || !loadedMonths) return null;
+    return calculateHorizonForecast(loadedMonths, settings);
+  }, [horizonMonths, loadedMonths, settings]);
+
+  const goalSnapshots = useMemo(() => {
+    if (!currentSnapshot || !hasGoals) return [];
+    // Progress only counts the open month until the stored months arrive
+    if (!dashboardMonths) return [currentSnapshot];
+    return [...dashboardMonths.stored.filter(month => month.id !== currentSnapshot.id), currentSnapshot];
+  }, [currentSnapshot, hasGoals, dashboardMonths]);
+
+  const goalProgress = useMemo(() => {
+    const today = new Date().toISOString().slice(0, 10);
+    return savingsGoals.map(goal => ({ goal, progress: buildGoalProgress(goal, goalSnapshots, today, settings) }));
+  }, [savingsGoals, goalSnapshots, settings]);
+
+  const { sweep_rules: sweepRules, preferred_currency: preferredCurrency, exchange_rates: exchangeRates } = settings;
+  useEffect(() => {
+    if (!loadedMonths || !showRange) {
+      setRangeForecast(null);
+      return;
+    }
+    // Deferred so the simulation runs after the render that asked for it instead of blocking it
+    const timer = window.setTimeout(() => {
+      setRangeForecast(simulateForecast(
+        loadedMonths,
+        selectedAccountId,
+        { sweep_rules: sweepRules, preferred_currency: preferredCurrency, exchange_rates: exchangeRates },
+        getSimulationRuns(loadedMonths.length)
+      ));
+    }, 0);
+    return () => window.clearTimeout(timer);
+  }, [loadedMonths, showRange, selectedAccountId, sweepRules, preferredCurrency, exchangeRates]);
+
+  const scenarioForecast = useMemo(() => {
+    if (!currentSnapshot || !scenario) return null;
+    if (horizonMonths <= 1) return calculateForecast(applyScenario(currentSnapshot, scenario), settings);
+    if (!loadedMonths) return null;
+    return calculateHorizonForecast(applyScenarioToHorizon(loadedMonths, scenario), settings).points;
+  }, [currentSnapshot, scenario, horizonMonths, loadedMonths, settings]);
 
   const forecastData = useMemo(() => {
     if (!currentSnapshot) return [];
-    return calculateForecast(currentSnapshot);
-  }, [currentSnapshot]);
+    if (horizon) return horizon.points;
+    return calculateForecast(currentSnapshot, settings);
+  }, [currentSnapshot, horizon, settings]);
+
+  const monthBoundaries = useMemo(() => {
+    if (!horizon) return [];
+    return horizon.months.slice(1).map(month => ({
+      date: `${month.month_id}-01`,
+      label: `${formatMonthLabel(month.month_id)}${month.is_virtual ? ' (projected)' : ''}`
+    }));
+  }, [horizon]);
 
   const selectedSeries = useMemo(() => {
     if (selectedAccountId === 'total') {
@@ -20,6 +154,27 @@ const Dashboard: React.FC = () => {
     return forecastData.map(p => ({ date: p.date, value: p.balances[selectedAccountId] || 0 }));
   }, [forecastData, selectedAccountId]);
 
+  const breaches = useMemo(() => {
+    if (!currentSnapshot) return [];
+    return findBalanceBreaches(forecastData, currentSnapshot.accounts);
+  }, [forecastData, currentSnapshot]);
+
+  const chartData = useMemo(() => {
+    const bandsByDate = new Map<string, ForecastBandPoint>((rangeForecast?.points || []).map(point => [point.date, point]));
+    const scenarioByDate = new Map<string, ForecastPoint>((scenarioForecast || []).map(point => [point.date, point]));
+    return selectedSeries.map(point => {
+      const band = bandsByDate.get(point.date);
+      const scenarioPoint = scenarioByDate.get(point.date);
+      return {
+        ...point,
+        ...(band ? { band: [band.p10, band.p90], p50: band.p50 } : {}),
+        ...(scenarioPoint ? {
+          scenario: selectedAccountId === 'total' ? scenarioPoint.total_cash : scenarioPoint.balances[selectedAccountId] || 0
+        } : {})
+      };
+    });
+  }, [selectedSeries, rangeForecast, scenarioForecast, selectedAccountId]);
+
   const summary = useMemo(() => {
     if (selectedSeries.length === 0) {
       return { projected_end_balance: 0, lowest_projected_balance: 0, lowest_balance_date: '' };
@@ -48,14 +203,16 @@ const Dashboard: React.FC = () => {
     let expenses = 0;
     currentSnapshot.transactions.forEach(tx => {
       if (tx.transaction_type === 'transfer' || tx.transfer_account_id) return;
-      if (tx.amount >= 0) {
-        income += tx.amount;
+      const account = currentSnapshot.accounts.find(acc => acc.id === tx.account_id);
+      const amount = convertToPreferred(tx.amount, account, settings, tx.date);
+      if (amount >= 0) {
+        income += amount;
       } else {
-        expenses += Math.abs(tx.amount);
+        expenses += Math.abs(amount);
       }
     });
     return { income, expenses, net: income - expenses };
-  }, [currentSnapshot]);
+  }, [currentSnapshot, settings]);
 
   const startingCash = useMemo(() => {
     if (!currentSnapshot) return 0;
@@ -65,21 +222,59 @@ const Dashboard: React.FC = () => {
       );
       return eligibleAccounts.reduce((sum, acc) => {
         const balance = currentSnapshot.starting_balances.find(b => b.account_id === acc.id)?.amount || 0;
-        return sum + balance;
+        return sum + convertToPreferred(balance, acc, settings, `${currentSnapshot.id}-01`);
       }, 0);
     }
     return currentSnapshot.starting_balances.find(b => b.account_id === selectedAccountId)?.amount || 0;
-  }, [currentSnapshot, selectedAccountId]);
+  }, [currentSnapshot, selectedAccountId, settings]);
 
-  const formatCurrency = (val: number) => {
+  // Totals are in the preferred currency; a single account is shown in its own
+  const accountCurrency = (accountId: string) =>
+    getAccountCurrency(currentSnapshot?.accounts.find(acc => acc.id === accountId), settings.preferred_currency);
+  const displayCurrency = selectedAccountId === 'total' ? settings.preferred_currency : accountCurrency(selectedAccountId);
+
+  const safeToSpend = useMemo(() => {
+    if (!currentSnapshot || !safeToSpendWindow) return null;
+    const { asOf, nextPayday } = safeToSpendWindow;
+    let points: ForecastPoint[];
+    let upcoming: Transaction[];
+    if (paydayMonths && paydayMonths.length > 1) {
+      const paydayForecast = calculateHorizonForecast(paydayMonths, settings);
+      points = paydayForecast.points;
+      upcoming = [...paydayMonths.flatMap(month => month.snapshot.transactions), ...paydayForecast.projected];
+    } else {
+      points = calculateForecast(currentSnapshot, settings);
+      upcoming = [
+        ...currentSnapshot.transactions,
+        ...calculateProjectedTransactions(currentSnapshot, settings),
+        ...calculateSweepTransfers(currentSnapshot, settings)
+      ];
+    }
+    const build = (accountId: string) =>
+      calculateSafeToSpend(points, accountId, currentSnapshot.accounts, upcoming, asOf, nextPayday, settings);
+    const total = build('total');
+    if (!total) return null;
+    const accounts = currentSnapshot.accounts
+      .filter(acc => acc.included_in_cash_forecast && acc.type !== 'investment')
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(acc => build(acc.id))
+      .filter((entry): entry is SafeToSpend => entry !== null);
+    return { total, accounts };
+  }, [currentSnapshot, safeToSpendWindow, paydayMonths, settings]);
+  const selectedSafeToSpend = selectedAccountId === 'total'
+    ? safeToSpend?.total
+    : safeToSpend?.accounts.find(entry => entry.account_id === selectedAccountId);
+
+  const formatCurrency = (val: number, currency = displayCurrency) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: settings.preferred_currency,
+      currency,
     }).format(val);
   };
 
   if (!currentSnapshot) return null;
   const sortedAccounts = [...currentSnapshot.accounts].sort((a, b) => a.name.localeCompare(b.name));
+  const selectedMinimum = currentSnapshot.accounts.find(acc => acc.id === selectedAccountId)?.minimum_balance;
 
   return (
     <div className="space-y-6 pb-20 md:pb-0">
@@ -88,18 +283,59 @@ const Dashboard: React.FC = () => {
           <h2 className="text-3xl font-extrabold text-slate-900">Dashboard</h2>
           <p className="text-slate-500">Overview for {formatMonthLabel(currentSnapshot.id)}</p>
         </div>
-        <div className="space-y-1">
-          <label className="text-xs font-bold text-slate-500 uppercase">Account View</label>
-          <select
-            value={selectedAccountId}
-            onChange={(e) => setSelectedAccountId(e.target.value)}
-            className="px-3 py-2 border rounded-lg bg-slate-50"
-          >
-            <option value="total">All Cash (Forecast Total)</option>
-            {sortedAccounts.map(acc => (
-              <option key={acc.id} value={acc.id}>{acc.name}</option>
-            ))}
-          </select>
+        <div className="flex gap-4">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Horizon</label>
+            <select
+              value={horizonMonths}
+              onChange={(e) => setHorizonMonths(Number(e.target.value))}
+              className="px-3 py-2 border rounded-lg bg-slate-50"
+            >
+              {HORIZON_OPTIONS.map(count => (
+                <option key={count} value={count}>{count === 1 ? 'This month' : `${count} months`}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Range</label>
+            <label className="flex items-center gap-2 px-3 py-2 border rounded-lg bg-slate-50 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={showRange}
+                onChange={(e) => setShowRange(e.target.checked)}
+                className="w-4 h-4 rounded text-blue-600"
+              />
+              P10–P90
+            </label>
+          </div>
+          {(currentSnapshot.scenarios || []).length > 0 && (
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 uppercase">Compare</label>
+              <select
+                value={scenarioId}
+                onChange={(e) => setScenarioId(e.target.value)}
+                className="px-3 py-2 border rounded-lg bg-slate-50"
+              >
+                <option value="">Baseline only</option>
+                {(currentSnapshot.scenarios || []).map(item => (
+                  <option key={item.id} value={item.id}>{item.name || 'Untitled'}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Account View</label>
+            <select
+              value={selectedAccountId}
+              onChange={(e) => setSelectedAccountId(e.target.value)}
+              className="px-3 py-2 border rounded-lg bg-slate-50"
+            >
+              <option value="total">All Cash (Forecast Total)</option>
+              {sortedAccounts.map(acc => (
+                <option key={acc.id} value={acc.id}>{acc.name}</option>
+              ))}
+            </select>
+          </div>
         </div>
       </div>
 
@@ -117,6 +353,11 @@ const Dashboard: React.FC = () => {
             {formatCurrency(summary.lowest_projected_balance)}
           </p>
           <p className="text-xs text-slate-400 mt-1">Expected on {summary.lowest_balance_date || 'N/A'}</p>
+          {rangeForecast && (
+            <p className={`text-xs mt-1 font-semibold ${rangeForecast.probability_below_zero > 0 ? 'text-red-600' : 'text-slate-500'}`}>
+              {(rangeForecast.probability_below_zero * 100).toFixed(1)}% chance of dropping below zero ({rangeForecast.runs} runs)
+            </p>
+          )}
         </div>
 
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
@@ -127,6 +368,173 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800">Safe to Spend</h3>
+            {selectedSafeToSpend && (
+              <p className="text-xs text-slate-500">
+                From {selectedSafeToSpend.as_of}{' '}
+                {!selectedSafeToSpend.next_payday
+                  ? 'through the end of the forecast (no upcoming payday found)'
+                  : coversPayday(selectedSafeToSpend)
+                    ? `until the next payday on ${selectedSafeToSpend.next_payday}`
+                    : `through ${selectedSafeToSpend.through} only (the next payday on ${selectedSafeToSpend.next_payday} is past the loaded forecast)`}
+                , keeping every day above the minimum balance.
+              </p>
+            )}
+          </div>
+          {selectedSafeToSpend && (
+            <p className={`text-2xl font-bold ${selectedSafeToSpend.safe_to_spend > 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {formatCurrency(selectedSafeToSpend.safe_to_spend)}
+            </p>
+          )}
+        </div>
+        {!selectedSafeToSpend ? (
+          <p className="text-sm text-slate-400 italic">
+            {selectedAccountId === 'total' || !safeToSpend
+              ? 'Safe to spend is available for months that include today or later.'
+              : 'This account is not part of the cash forecast.'}
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase">Balance Today</p>
+                <p className="font-semibold text-slate-800">{formatCurrency(selectedSafeToSpend.current_balance)}</p>
+              </div>
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase">Lowest Before Payday</p>
+                <p className="font-semibold text-slate-800">
+                  {formatCurrency(selectedSafeToSpend.lowest_balance)} on {selectedSafeToSpend.lowest_date}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs font-bold text-slate-500 uppercase">Buffer</p>
+                <p className="font-semibold text-slate-800">{formatCurrency(selectedSafeToSpend.buffer)}</p>
+              </div>
+            </div>
+            {safeToSpend && safeToSpend.accounts.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-xs uppercase text-slate-500">
+                    <tr>
+                      <th className="px-4 py-2 font-bold">Account</th>
+                      <th className="px-4 py-2 font-bold text-right">Lowest</th>
+                      <th className="px-4 py-2 font-bold text-right">Buffer</th>
+                      <th className="px-4 py-2 font-bold text-right">Safe to Spend</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {safeToSpend.accounts.map(entry => {
+                      const currency = accountCurrency(entry.account_id);
+                      return (
+                        <tr key={entry.account_id}>
+                          <td className="px-4 py-2 font-semibold text-slate-700">
+                            {currentSnapshot.accounts.find(acc => acc.id === entry.account_id)?.name || entry.account_id}
+                          </td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(entry.lowest_balance, currency)}</td>
+                          <td className="px-4 py-2 text-right">{formatCurrency(entry.buffer, currency)}</td>
+                          <td className={`px-4 py-2 text-right font-bold ${entry.safe_to_spend > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {formatCurrency(entry.safe_to_spend, currency)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                    <tr className="bg-slate-50">
+                      <td className="px-4 py-2 font-bold text-slate-800">Total Cash</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(safeToSpend.total.lowest_balance, settings.preferred_currency)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(safeToSpend.total.buffer, settings.preferred_currency)}</td>
+                      <td className="px-4 py-2 text-right font-bold text-slate-800">
+                        {formatCurrency(safeToSpend.total.safe_to_spend, settings.preferred_currency)}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-slate-500 uppercase">Upcoming Obligations</p>
+              {selectedSafeToSpend.obligations.length === 0 ? (
+                <p className="text-sm text-slate-400 italic">Nothing leaves {selectedAccountId === 'total' ? 'cash' : 'this account'} before payday.</p>
+              ) : (
+                <ul className="divide-y divide-slate-100 text-sm">
+                  {selectedSafeToSpend.obligations.map((obligation, index) => (
+                    <li key={`${obligation.date}:${obligation.account_id}:${index}`} className="flex justify-between py-2">
+                      <span className="text-slate-700">
+                        <span className="font-mono text-slate-500 mr-2">{obligation.date}</span>
+                        {obligation.description}
+                        {selectedAccountId === 'total' && (
+                          <span className="text-xs text-slate-400 ml-2">
+                            {currentSnapshot.accounts.find(acc => acc.id === obligation.account_id)?.name}
+                          </span>
+                        )}
+                      </span>
+                      <span className="font-semibold text-red-600">-{formatCurrency(obligation.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {goalProgress.length > 0 && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+          <h3 className="text-lg font-bold text-slate-800">Savings Goals</h3>
+          <div className="space-y-4">
+            {goalProgress.map(({ goal, progress }) => {
+              const goalCurrency = accountCurrency(goal.account_id);
+              return (
+                <div key={goal.id} className="space-y-2">
+                  <div className="flex flex-wrap justify-between items-baseline gap-2">
+                    <span className="font-semibold text-slate-700">{goal.name}</span>
+                    <span className="text-sm text-slate-500">
+                      {formatCurrency(progress.saved, goalCurrency)} of {formatCurrency(goal.target_amount, goalCurrency)}
+                    </span>
+                  </div>
+                  <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${GOAL_STATUS_STYLES[progress.status].bar}`}
+                      style={{ width: `${progress.percent}%` }}
+                    />
+                  </div>
+                  <div className="flex flex-wrap justify-between gap-2 text-xs text-slate-500">
+                    <span>
+                      {progress.status === 'complete'
+                        ? 'Target reached'
+                        : `${formatCurrency(progress.required_monthly, goalCurrency)}/month needed · ${progress.months_remaining} month${progress.months_remaining === 1 ? '' : 's'} left`}
+                      {progress.scheduled > 0 && ` · ${formatCurrency(progress.scheduled, goalCurrency)} scheduled`}
+                    </span>
+                    <span>
+                      By {goal.target_date}
+                      <span className={`ml-2 font-bold ${GOAL_STATUS_STYLES[progress.status].text}`}>
+                        {GOAL_STATUS_STYLES[progress.status].label}
+                      </span>
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {breaches.length > 0 && (
+        <div className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+          <p className="font-bold">Minimum balance warnings</p>
+          {breaches.map(breach => {
+            const name = currentSnapshot.accounts.find(acc => acc.id === breach.account_id)?.name || breach.account_id;
+            return (
+              <p key={`${breach.account_id}:${breach.start_date}`}>
+                {name} is below {formatCurrency(breach.minimum_balance, accountCurrency(breach.account_id))} from {breach.start_date} to {breach.end_date} (low {formatCurrency(breach.lowest_balance, accountCurrency(breach.account_id))} on {breach.lowest_date})
+              </p>
+            );
+          })}
+        </div>
+      )}
+
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
         <h3 className="text-lg font-bold text-slate-800 mb-4">Monthly Totals</h3>
         <div className="overflow-x-auto">
@@ -134,16 +542,16 @@ const Dashboard: React.FC = () => {
             <tbody className="divide-y divide-slate-100">
               <tr>
                 <td className="px-4 py-3 font-semibold text-slate-700">Total Income</td>
-                <td className="px-4 py-3 text-right font-bold text-green-600">{formatCurrency(totals.income)}</td>
+                <td className="px-4 py-3 text-right font-bold text-green-600">{formatCurrency(totals.income, settings.preferred_currency)}</td>
               </tr>
               <tr>
                 <td className="px-4 py-3 font-semibold text-slate-700">Total Expenses</td>
-                <td className="px-4 py-3 text-right font-bold text-red-600">{formatCurrency(totals.expenses)}</td>
+                <td className="px-4 py-3 text-right font-bold text-red-600">{formatCurrency(totals.expenses, settings.preferred_currency)}</td>
               </tr>
               <tr>
                 <td className="px-4 py-3 font-semibold text-slate-700">Net Amount</td>
                 <td className={`px-4 py-3 text-right font-bold ${totals.net >= 0 ? 'text-slate-800' : 'text-red-600'}`}>
-                  {formatCurrency(totals.net)}
+                  {formatCurrency(totals.net, settings.preferred_currency)}
                 </td>
               </tr>
             </tbody>
@@ -154,17 +562,54 @@ const Dashboard: React.FC = () => {
       <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-80">
         <h3 className="text-lg font-bold text-slate-800 mb-4">Cash Forecast Trend</h3>
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={selectedSeries}>
+          <ComposedChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
             <XAxis 
               dataKey="date" 
-              tickFormatter={(str) => str.split('-')[2]} 
+              tickFormatter={(str) => horizon ? str.slice(5) : str.split('-')[2]} 
               stroke="#94a3b8"
               fontSize={12}
             />
             <YAxis stroke="#94a3b8" fontSize={12} />
+            {typeof selectedMinimum === 'number' && (
+              <ReferenceLine
+                y={selectedMinimum}
+                stroke="#f59e0b"
+                strokeDasharray="4 4"
+                label={{ value: 'Minimum', position: 'insideBottomRight', fontSize: 10, fill: '#b45309' }}
+              />
+            )}
+            {monthBoundaries.map(boundary => (
+              <ReferenceLine
+                key={boundary.date}
+                x={boundary.date}
+                stroke="#cbd5e1"
+                strokeDasharray="4 4"
+                label={{ value: boundary.label, position: 'insideTopLeft', fontSize: 10, fill: '#64748b' }}
+              />
+            ))}
+            {rangeForecast && (
+              <Area
+                type="monotone"
+                dataKey="band"
+                stroke="none"
+                fill="#93c5fd"
+                fillOpacity={0.35}
+                isAnimationActive={false}
+              />
+            )}
+            {rangeForecast && (
+              <Line type="monotone" dataKey="p50" stroke="#93c5fd" strokeDasharray="4 4" dot={false} isAnimationActive={false} />
+            )}
             <Tooltip 
-              formatter={(value: number) => [formatCurrency(value), selectedAccountId === 'total' ? 'Total Cash' : 'Balance']}
+              formatter={(value: number | number[], name: string) => {
+                if (name === 'band' && Array.isArray(value)) {
+                  return [`${formatCurrency(value[0])} – ${formatCurrency(value[1])}`, 'P10–P90'];
+                }
+                if (name === 'p50') return [formatCurrency(value as number), 'Median'];
+                if (name === 'scenario') return [formatCurrency(value as number), scenario?.name || 'Scenario'];
+                return [formatCurrency(value as number), selectedAccountId === 'total' ? 'Total Cash' : 'Balance'];
+              }}
               contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
             />
             <Line 
@@ -175,7 +620,10 @@ const Dashboard: React.FC = () => {
               dot={false}
               activeDot={{ r: 6 }}
             />
-          </LineChart>
+            {scenarioForecast && (
+              <Line type="monotone" dataKey="scenario" stroke="#a855f7" strokeWidth={2} strokeDasharray="6 3" dot={false} isAnimationActive={false} />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
 
@@ -189,10 +637,10 @@ const Dashboard: React.FC = () => {
               <div key={acc.id} className="flex justify-between items-center py-2 border-b border-slate-50 last:border-0">
                 <div>
                   <p className="font-semibold text-slate-700">{acc.name}</p>
-                  <p className="text-xs text-slate-400 uppercase tracking-wider">{acc.type}</p>
+                  <p className="text-xs text-slate-400 uppercase tracking-wider">{acc.type.replace('_', ' ')}</p>
                 </div>
                 <p className={`font-bold ${balance >= 0 ? 'text-slate-800' : 'text-red-500'}`}>
-                  {formatCurrency(balance)}
+                  {formatCurrency(balance, accountCurrency(acc.id))}
                 </p>
               </div>
             );
@@ -203,4 +651,4 @@ const Dashboard: React.FC = () => {
   );
 };
 
-export default Dashboard;
+export default Dashboard;
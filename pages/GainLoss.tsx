@@ -1,5 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useApp } from '../App';
+import { convertToPreferred, getAccountCurrency } from '../lib/currency';
+import { parseCsvLine } from '../lib/csv';
 import { storage } from '../lib/storage';
 import { GainLossHistoryEntry, MonthSnapshot, StartingBalance } from '../types';
 import { formatMonthLabel } from '../lib/format';
@@ -134,13 +136,21 @@ const GainLossPage: React.FC = () => {
     return resolveBalances(monthId);
   };
 
+  // Totals add accounts up in the preferred currency, at the rate in effect when the month opened
+  const buildPreferredMap = (balances: StartingBalance[], monthId: string) => {
+    return new Map<string, number>(balances.map(b => {
+      const account = settings.accounts.find(acc => acc.id === b.account_id);
+      return [b.account_id, convertToPreferred(b.amount, account, settings, `${monthId}-01`)];
+    }));
+  };
+
   const { totalAll, totalCash, totalInvestments } = useMemo(() => {
     if (!currentSnapshot) {
       return { totalAll: 0, totalCash: 0, totalInvestments: 0 };
     }
-    const currentBalances = new Map(getBalancesForMonth(currentSnapshot.id).map(b => [b.account_id, b.amount]));
-    const previousBalances = getBalancesForMonth(getPreviousMonthId(currentSnapshot.id));
-    const previousMap = new Map(previousBalances.map(b => [b.account_id, b.amount]));
+    const previousId = getPreviousMonthId(currentSnapshot.id);
+    const currentBalances = buildPreferredMap(getBalancesForMonth(currentSnapshot.id), currentSnapshot.id);
+    const previousMap = buildPreferredMap(getBalancesForMonth(previousId), previousId);
 
     let totalAllDelta = 0;
     let cashDelta = 0;
@@ -162,7 +172,7 @@ const GainLossPage: React.FC = () => {
     });
 
     return { totalAll: totalAllDelta, totalCash: cashDelta, totalInvestments: investmentDelta };
-  }, [currentSnapshot, previousSnapshot, settings.accounts, settings.gain_loss_history, yearSnapshots]);
+  }, [currentSnapshot, previousSnapshot, settings.accounts, settings.gain_loss_history, settings.exchange_rates, settings.preferred_currency, yearSnapshots]);
 
   const ytdTotals = useMemo(() => {
     if (!currentSnapshot) {
@@ -171,8 +181,8 @@ const GainLossPage: React.FC = () => {
     const year = currentSnapshot.id.split('-')[0];
     const baselineId = `${year}-01`;
     const baselineBalances: StartingBalance[] = resolveBalances(baselineId, ytdBaselineSnapshot);
-    const baselineMap = new Map(baselineBalances.map(b => [b.account_id, b.amount]));
-    const currentMap = new Map(getBalancesForMonth(currentSnapshot.id).map(b => [b.account_id, b.amount]));
+    const baselineMap = buildPreferredMap(baselineBalances, baselineId);
+    const currentMap = buildPreferredMap(getBalancesForMonth(currentSnapshot.id), currentSnapshot.id);
 
     let cashDelta = 0;
     let investmentDelta = 0;
@@ -192,7 +202,7 @@ const GainLossPage: React.FC = () => {
       });
 
     return { cash: cashDelta, investments: investmentDelta, cashAndInvestments: cashAndInvestmentDelta };
-  }, [currentSnapshot, settings.accounts, settings.gain_loss_history, ytdBaselineSnapshot, yearSnapshots]);
+  }, [currentSnapshot, settings.accounts, settings.gain_loss_history, settings.exchange_rates, settings.preferred_currency, ytdBaselineSnapshot, yearSnapshots]);
 
   const buildBalanceMap = (balances: StartingBalance[]) => {
     return new Map(balances.map(b => [b.account_id, b.amount]));
@@ -220,8 +230,8 @@ const GainLossPage: React.FC = () => {
     const year = currentSnapshot.id.split('-')[0];
     const months = buildMonthRange(`${year}-01`, currentSnapshot.id);
     const rows = months.map(monthId => {
-      const currentBalances = buildBalanceMap(getBalancesForMonth(monthId));
-      const prevBalances = buildBalanceMap(getBalancesForMonth(getPreviousMonthId(monthId)));
+      const currentBalances = buildPreferredMap(getBalancesForMonth(monthId), monthId);
+      const prevBalances = buildPreferredMap(getBalancesForMonth(getPreviousMonthId(monthId)), getPreviousMonthId(monthId));
       const currentTotals = buildTotalsFromMap(currentBalances);
       const prevTotals = buildTotalsFromMap(prevBalances);
       return {
@@ -232,20 +242,20 @@ const GainLossPage: React.FC = () => {
       };
     });
     return rows;
-  }, [currentSnapshot, settings.accounts, settings.gain_loss_history, yearSnapshots]);
+  }, [currentSnapshot, settings.accounts, settings.gain_loss_history, settings.exchange_rates, settings.preferred_currency, yearSnapshots]);
 
   const ytdProgression = useMemo(() => {
     if (!currentSnapshot) return [];
     const year = currentSnapshot.id.split('-')[0];
     const baselineId = `${year}-01`;
-    const baselineTotals = buildTotalsFromMap(buildBalanceMap(getBalancesForMonth(baselineId)));
+    const baselineTotals = buildTotalsFromMap(buildPreferredMap(getBalancesForMonth(baselineId), baselineId));
     return momRows.map(row => ({
       month: row.monthId,
-      cash: (buildTotalsFromMap(buildBalanceMap(getBalancesForMonth(row.monthId))).cash - baselineTotals.cash),
-      investments: (buildTotalsFromMap(buildBalanceMap(getBalancesForMonth(row.monthId))).investments - baselineTotals.investments),
-      cashAndInvestments: (buildTotalsFromMap(buildBalanceMap(getBalancesForMonth(row.monthId))).cashAndInvestments - baselineTotals.cashAndInvestments)
+      cash: (buildTotalsFromMap(buildPreferredMap(getBalancesForMonth(row.monthId), row.monthId)).cash - baselineTotals.cash),
+      investments: (buildTotalsFromMap(buildPreferredMap(getBalancesForMonth(row.monthId), row.monthId)).investments - baselineTotals.investments),
+      cashAndInvestments: (buildTotalsFromMap(buildPreferredMap(getBalancesForMonth(row.monthId), row.monthId)).cashAndInvestments - baselineTotals.cashAndInvestments)
     }));
-  }, [currentSnapshot, momRows, settings.accounts, settings.gain_loss_history, yearSnapshots]);
+  }, [currentSnapshot, momRows, settings.accounts, settings.gain_loss_history, settings.exchange_rates, settings.preferred_currency, yearSnapshots]);
 
   const historyAccounts = [...settings.accounts]
     .filter(acc => acc.type !== 'loan')
@@ -262,6 +272,7 @@ const GainLossPage: React.FC = () => {
         id: acc.id,
         name: acc.name,
         type: acc.type,
+        currency: getAccountCurrency(acc, settings.preferred_currency),
         current,
         previous,
         delta: current - previous
@@ -273,9 +284,9 @@ const GainLossPage: React.FC = () => {
     if (!currentSnapshot) {
       return { cash: 0, investments: 0, cashAndInvestments: 0 };
     }
-    const prevBalances = getBalancesForMonth(getPreviousMonthId(currentSnapshot.id));
-    const prevMap = new Map(prevBalances.map(b => [b.account_id, b.amount]));
-    const currentMap = new Map(getBalancesForMonth(currentSnapshot.id).map(b => [b.account_id, b.amount]));
+    const prevId = getPreviousMonthId(currentSnapshot.id);
+    const prevMap = buildPreferredMap(getBalancesForMonth(prevId), prevId);
+    const currentMap = buildPreferredMap(getBalancesForMonth(currentSnapshot.id), currentSnapshot.id);
 
     let cashDelta = 0;
     let investmentDelta = 0;
@@ -295,12 +306,12 @@ const GainLossPage: React.FC = () => {
       });
 
     return { cash: cashDelta, investments: investmentDelta, cashAndInvestments: cashAndInvestmentDelta };
-  }, [currentSnapshot, previousSnapshot, settings.accounts, settings.gain_loss_history, yearSnapshots]);
+  }, [currentSnapshot, previousSnapshot, settings.accounts, settings.gain_loss_history, settings.exchange_rates, settings.preferred_currency, yearSnapshots]);
 
-  const formatCurrency = (val: number) => {
+  const formatCurrency = (val: number, currency = settings.preferred_currency) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: settings.preferred_currency,
+      currency,
     }).format(val);
   };
 
@@ -339,32 +350,6 @@ const GainLossPage: React.FC = () => {
     URL.revokeObjectURL(url);
   };
 
-  const parseCsvLine = (line: string) => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i += 1) {
-      const char = line[i];
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i += 1;
-        } else {
-          inQuotes = !inQuotes;
-        }
-        continue;
-      }
-      if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-        continue;
-      }
-      current += char;
-    }
-    result.push(current);
-    return result;
-  };
-
   const handleImportPaste = async (rawOverride?: string) => {
     const rawSource = typeof rawOverride === 'string' ? rawOverride : importText;
     const raw = rawSource.trim();
@@ -633,10 +618,10 @@ const GainLossPage: React.FC = () => {
                 <tr key={row.id}>
                   <td className="px-4 py-3 font-semibold text-slate-700">{row.name}</td>
                   <td className="px-4 py-3 text-slate-500 capitalize">{row.type}</td>
-                  <td className="px-4 py-3 text-right">{formatCurrency(row.previous)}</td>
-                  <td className="px-4 py-3 text-right">{formatCurrency(row.current)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.previous, row.currency)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(row.current, row.currency)}</td>
                   <td className={`px-4 py-3 text-right font-bold ${row.delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {formatCurrency(row.delta)}
+                    {formatCurrency(row.delta, row.currency)}
                   </td>
                 </tr>
               ))}
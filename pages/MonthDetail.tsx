@@ -1,15 +1,35 @@
 
 import React, { useEffect, useMemo, useState } from 'react';
 import { useApp } from '../App';
-import { Transaction } from '../types';
-import { calculateForecast } from '../lib/forecasting';
+import { MonthSnapshot, Transaction, TransactionStatus } from '../types';
+import { getAccountCurrency } from '../lib/currency';
+import { calculateForecast, calculateSweepTransfers, findBalanceBreaches } from '../lib/forecasting';
 import { roundToCents } from '../lib/number';
+import { applyUserEdit, revertUserEdit } from '../lib/generate';
+import { buildCategoryAccuracy, buildReconciliation, getClearedBalance, markReconciled } from '../lib/reconciliation';
+import { applyBankImport, BankImportPreviewRow, buildBankImportPreview, parseBankStatement } from '../lib/bankImport';
+import { findOfxAccount, OfxStatement, parseOfx } from '../lib/ofx';
+import { storage } from '../lib/storage';
 import { Button } from '../components/Button';
 
 const MonthDetail: React.FC = () => {
   const { currentSnapshot, setSnapshot, saveCurrentSnapshot, settings, updateSettings } = useApp();
   const [editingTx, setEditingTx] = useState<Partial<Transaction> | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
+  const [reconcileAccountId, setReconcileAccountId] = useState('');
+  const [reconcileDate, setReconcileDate] = useState('');
+  const [bankBalance, setBankBalance] = useState('');
+  const [showAccuracy, setShowAccuracy] = useState(false);
+  const [accuracyMonths, setAccuracyMonths] = useState<MonthSnapshot[]>([]);
+  const [importProfileId, setImportProfileId] = useState('');
+  const [importAccountId, setImportAccountId] = useState('');
+  const [importCategoryId, setImportCategoryId] = useState('');
+  const [importText, setImportText] = useState('');
+  const [importPreview, setImportPreview] = useState<BankImportPreviewRow[] | null>(null);
+  const [importStatus, setImportStatus] = useState('');
+  const [ofxStatements, setOfxStatements] = useState<OfxStatement[] | null>(null);
+  const [ofxIndex, setOfxIndex] = useState(0);
+  const [recordOfxBalance, setRecordOfxBalance] = useState(true);
 
   if (!currentSnapshot) return null;
 
@@ -25,11 +45,28 @@ const MonthDetail: React.FC = () => {
       .map((id) => cashAccounts.find((acc) => acc.id === id))
       .filter((acc): acc is typeof cashAccounts[number] => Boolean(acc));
   }, [balanceAccountOrder, cashAccounts]);
-  const forecastData = useMemo(() => calculateForecast(currentSnapshot), [currentSnapshot]);
-  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', {
+  // Without sweep rules, so the running balances and reconciliations only count materialized sweeps
+  const forecastSettings = useMemo(
+    () => ({ preferred_currency: settings.preferred_currency, exchange_rates: settings.exchange_rates }),
+    [settings.preferred_currency, settings.exchange_rates]
+  );
+  const forecastData = useMemo(
+    () => calculateForecast(currentSnapshot, forecastSettings),
+    [currentSnapshot, forecastSettings]
+  );
+  const breaches = useMemo(() => findBalanceBreaches(forecastData, currentSnapshot.accounts), [forecastData, currentSnapshot.accounts]);
+  // Sweeps the rules would add on top of this month's transactions; the running balances only show materialized ones
+  const pendingSweeps = useMemo(
+    () => calculateSweepTransfers(currentSnapshot, settings),
+    [currentSnapshot, settings]
+  );
+  const formatCurrency = (val: number, currency = settings.preferred_currency) => new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: settings.preferred_currency,
+    currency,
   }).format(val);
+  // Per-account amounts are shown in the account's own currency
+  const accountCurrency = (accountId?: string) =>
+    getAccountCurrency(currentSnapshot.accounts.find(acc => acc.id === accountId), settings.preferred_currency);
 
   const arraysEqual = (a: string[], b: string[]) => {
     if (a.length !== b.length) return false;
@@ -51,6 +88,198 @@ const MonthDetail: React.FC = () => {
     }
   }, [cashAccounts, settings.running_balance_account_order]);
 
+  const ACCURACY_MONTHS = 6;
+
+  useEffect(() => {
+    if (!showAccuracy) return;
+    let isActive = true;
+    storage.listMonths().then(async ids => {
+      const earlier = ids.filter(id => id < currentSnapshot.id).sort().slice(-(ACCURACY_MONTHS - 1));
+      const loaded = await Promise.all(earlier.map(id => storage.getMonth(id)));
+      if (isActive) setAccuracyMonths(loaded.filter((month): month is MonthSnapshot => Boolean(month)));
+    });
+    return () => { isActive = false; };
+  }, [showAccuracy, currentSnapshot.id]);
+
+  const accuracy = useMemo(() => {
+    if (!showAccuracy) return [];
+    return buildCategoryAccuracy([...accuracyMonths, currentSnapshot]);
+  }, [showAccuracy, accuracyMonths, currentSnapshot]);
+  const accuracyMonthIds = [...accuracyMonths.map(month => month.id), currentSnapshot.id];
+
+  const reconcileAccount = sortedAccounts.find(acc => acc.id === reconcileAccountId) || cashAccounts[0];
+  const reconcileOn = reconcileDate.startsWith(currentSnapshot.id) ? reconcileDate : forecastData[forecastData.length - 1]?.date || '';
+  const reconcileForecastBalance = forecastData.find(point => point.date === reconcileOn)?.balances[reconcileAccount?.id || ''] ?? 0;
+  const reconcileClearedBalance = reconcileAccount ? getClearedBalance(currentSnapshot, reconcileAccount.id, reconcileOn, forecastSettings) : 0;
+
+  const importProfiles = settings.bank_import_profiles || [];
+  const importProfile = importProfiles.find(profile => profile.id === importProfileId) || importProfiles[0];
+  const importAccount = sortedAccounts.find(acc => acc.id === (importAccountId || importProfile?.account_id)) || cashAccounts[0];
+  const importCategoryIdResolved = importCategoryId || importProfile?.category_id
+    || sortedCategories.find(cat => cat.type === 'expense')?.id || '';
+
+  const ofxStatement = ofxStatements?.[ofxIndex];
+
+  const previewOfxStatement = (statements: OfxStatement[], index: number) => {
+    const statement = statements[index];
+    const account = findOfxAccount(statement, settings.accounts) || importAccount;
+    setOfxStatements(statements);
+    setOfxIndex(index);
+    setImportAccountId(account?.id || '');
+    setImportPreview(account ? buildBankImportPreview(statement.rows, currentSnapshot, account.id, forecastSettings) : null);
+    setImportStatus(statements.length > 1 ? `Statement ${index + 1} of ${statements.length}.` : '');
+  };
+
+  const handlePreviewImport = (rawOverride?: string) => {
+    const raw = typeof rawOverride === 'string' ? rawOverride : importText;
+    if (!raw.trim()) return;
+    if (/<OFX>/i.test(raw)) {
+      const statements = parseOfx(raw) || [];
+      if (!statements.length) {
+        setImportPreview(null);
+        setImportStatus('No bank or credit card statements found in the OFX file.');
+        return;
+      }
+      previewOfxStatement(statements, 0);
+      return;
+    }
+    setOfxStatements(null);
+    if (!importProfile) {
+      setImportStatus('Add a bank import profile in Settings to read CSV files.');
+      return;
+    }
+    if (!importAccount) return;
+    const { rows, skipped, missing_columns: missing } = parseBankStatement(raw, importProfile);
+    if (missing.length) {
+      setImportPreview(null);
+      setImportStatus(`The file has no ${missing.join(', ')} column for the "${importProfile.name}" profile.`);
+      return;
+    }
+    setImportPreview(buildBankImportPreview(rows, currentSnapshot, importAccount.id, forecastSettings));
+    setImportStatus(skipped ? `Skipped ${skipped} row${skipped === 1 ? '' : 's'} without a readable date or amount.` : '');
+  };
+
+  const handleImportFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (ev) => {
+      const text = String(ev.target?.result || '');
+      setImportText(text);
+      handlePreviewImport(text);
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const updateImportAction = (index: number, value: string) => {
+    if (!importPreview) return;
+    setImportPreview(importPreview.map((entry, i) => {
+      if (i !== index) return entry;
+      if (value.startsWith('match:')) return { ...entry, action: 'match', match_id: value.slice(6) };
+      return { ...entry, action: value as BankImportPreviewRow['action'], match_id: undefined };
+    }));
+  };
+
+  const handleApplyImport = () => {
+    if (!importPreview || !importAccount) return;
+    const matchIds = importPreview.filter(entry => entry.action === 'match').map(entry => entry.match_id);
+    if (new Set(matchIds).size !== matchIds.length) {
+      alert('Two statement rows are matched to the same forecast transaction.');
+      return;
+    }
+    if (importPreview.some(entry => entry.action === 'new') && !importCategoryIdResolved) {
+      alert('Select a category for new transactions.');
+      return;
+    }
+    const { transactions, matched, added } = applyBankImport(currentSnapshot, importPreview, importAccount.id, importCategoryIdResolved, forecastSettings);
+    const imported = { ...currentSnapshot, transactions };
+    const status = `Matched ${matched} forecast transaction${matched === 1 ? '' : 's'} and added ${added} new.`;
+    if (!ofxStatement || !ofxStatements) {
+      setSnapshot(imported);
+      setImportPreview(null);
+      setImportText('');
+      setImportStatus(status);
+      return;
+    }
+
+    // The ledger balance is checked like a manually entered bank balance
+    const ledger = ofxStatement.ledger_balance;
+    if (recordOfxBalance && ledger && ledger.date.startsWith(currentSnapshot.id)) {
+      const entry = buildReconciliation(imported, importAccount.id, ledger.date, ledger.amount, forecastSettings);
+      const matchesCleared = roundToCents(entry.bank_balance - entry.cleared_balance) === 0;
+      setSnapshot({
+        ...imported,
+        transactions: matchesCleared ? markReconciled(transactions, importAccount.id, ledger.date) : transactions,
+        reconciliations: [...(currentSnapshot.reconciliations || []), entry]
+      });
+    } else {
+      setSnapshot(imported);
+    }
+    if (ofxStatement.account_number && importAccount.ofx_account_number !== ofxStatement.account_number) {
+      updateSettings({
+        accounts: settings.accounts.map(acc => {
+          if (acc.id === importAccount.id) return { ...acc, ofx_account_number: ofxStatement.account_number, updated_at: Date.now() };
+          return acc.ofx_account_number === ofxStatement.account_number ? { ...acc, ofx_account_number: undefined } : acc;
+        })
+      });
+    }
+    const remaining = ofxStatements.filter((_, index) => index !== ofxIndex);
+    if (remaining.length) {
+      setOfxStatements(remaining);
+      setOfxIndex(0);
+      setImportPreview(null);
+      setImportStatus(`${status} ${remaining.length} more statement${remaining.length === 1 ? '' : 's'} in the file.`);
+      return;
+    }
+    setOfxStatements(null);
+    setImportPreview(null);
+    setImportText('');
+    setImportStatus(status);
+  };
+
+  const describeImportTarget = (id?: string) => {
+    const tx = currentSnapshot.transactions.find(item => item.id === id);
+    return tx ? `${tx.date} ${tx.description} (${formatCurrency(tx.amount, accountCurrency(tx.account_id))})` : '';
+  };
+
+  const handleRecordReconciliation = () => {
+    if (!reconcileAccount || !reconcileOn || bankBalance === '') return;
+    const entry = buildReconciliation(currentSnapshot, reconcileAccount.id, reconcileOn, Number(bankBalance), forecastSettings);
+    const matchesCleared = roundToCents(entry.bank_balance - entry.cleared_balance) === 0;
+    setSnapshot({
+      ...currentSnapshot,
+      transactions: matchesCleared
+        ? markReconciled(currentSnapshot.transactions, reconcileAccount.id, reconcileOn)
+        : currentSnapshot.transactions,
+      reconciliations: [...(currentSnapshot.reconciliations || []), entry]
+    });
+    setBankBalance('');
+  };
+
+  const handleDeleteReconciliation = (id: string) => {
+    setSnapshot({
+      ...currentSnapshot,
+      reconciliations: (currentSnapshot.reconciliations || []).filter(entry => entry.id !== id)
+    });
+  };
+
+  const NEXT_STATUS: Record<TransactionStatus, TransactionStatus> = {
+    pending: 'cleared',
+    cleared: 'reconciled',
+    reconciled: 'pending'
+  };
+
+  const handleToggleStatus = (tx: Transaction) => {
+    const status = NEXT_STATUS[tx.status || 'pending'];
+    setSnapshot({
+      ...currentSnapshot,
+      transactions: currentSnapshot.transactions.map(t => (
+        t.id === tx.id ? { ...t, status: status === 'pending' ? undefined : status, updated_at: Date.now() } : t
+      ))
+    });
+  };
+
   const handleAmountKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
     if (event.key === 'Enter') {
       event.currentTarget.blur();
@@ -113,14 +342,20 @@ const MonthDetail: React.FC = () => {
     if (txType === 'expense') {
       normalizedAmount = -normalizedAmount;
     }
-    const tx: Transaction = {
+    const actualAmount = typeof editingTx.actual_amount === 'number'
+      ? roundToCents(Math.abs(editingTx.actual_amount)) * (txType === 'expense' ? -1 : 1)
+      : undefined;
+    const edited: Transaction = {
       ...editingTx as Transaction,
       transaction_type: txType,
       amount: normalizedAmount,
+      actual_amount: actualAmount,
       updated_at: Date.now()
     };
+    const previous = currentSnapshot.transactions.find(t => t.id === edited.id);
+    const tx = previous ? applyUserEdit(previous, edited) : edited;
 
-    const newTxs = currentSnapshot.transactions.some(t => t.id === tx.id)
+    const newTxs = previous
       ? currentSnapshot.transactions.map(t => t.id === tx.id ? tx : t)
       : [...currentSnapshot.transactions, tx];
 
@@ -128,6 +363,20 @@ const MonthDetail: React.FC = () => {
     setEditingTx(null);
   };
 
+  const handleRevertTx = () => {
+    if (!editingTx || !editingTx.id) return;
+    const previous = currentSnapshot.transactions.find(t => t.id === editingTx.id);
+    if (!previous) return;
+    const tx = revertUserEdit(previous);
+    setSnapshot({ ...currentSnapshot, transactions: currentSnapshot.transactions.map(t => t.id === tx.id ? tx : t) });
+    setEditingTx(null);
+  };
+
+  const handleMaterializeSweeps = () => {
+    if (pendingSweeps.length === 0) return;
+    setSnapshot({ ...currentSnapshot, transactions: [...currentSnapshot.transactions, ...pendingSweeps] });
+  };
+
   const handleDeleteTx = (id: string) => {
     if (!confirm('Are you sure you want to delete this transaction?')) return;
     const newTxs = currentSnapshot.transactions.filter(t => t.id !== id);
@@ -172,6 +421,34 @@ const MonthDetail: React.FC = () => {
           <h3 className="text-lg font-bold text-slate-800">Running Balances (Cash Accounts)</h3>
           <p className="text-xs text-slate-500">Daily balances by account</p>
         </div>
+        {breaches.length > 0 && (
+          <div className="px-4 py-3 border-b border-amber-200 bg-amber-50 text-xs text-amber-700 space-y-1">
+            {breaches.map(breach => {
+              const name = currentSnapshot.accounts.find(acc => acc.id === breach.account_id)?.name || breach.account_id;
+              return (
+                <p key={`${breach.account_id}:${breach.start_date}`}>
+                  {name} below minimum {formatCurrency(breach.minimum_balance, accountCurrency(breach.account_id))}: {breach.start_date} – {breach.end_date} (low {formatCurrency(breach.lowest_balance, accountCurrency(breach.account_id))})
+                </p>
+              );
+            })}
+          </div>
+        )}
+        {pendingSweeps.length > 0 && (
+          <div className="px-4 py-3 border-b border-indigo-100 bg-indigo-50 text-xs text-indigo-700 flex flex-wrap items-start justify-between gap-3">
+            <div className="space-y-1">
+              {pendingSweeps.map(sweep => {
+                const from = currentSnapshot.accounts.find(acc => acc.id === sweep.account_id)?.name || sweep.account_id;
+                const to = currentSnapshot.accounts.find(acc => acc.id === sweep.transfer_account_id)?.name || sweep.transfer_account_id;
+                return (
+                  <p key={sweep.source_item_id}>
+                    {sweep.description}: {formatCurrency(Math.abs(sweep.amount), accountCurrency(sweep.account_id))} from {from} to {to} on {sweep.date}
+                  </p>
+                );
+              })}
+            </div>
+            <Button onClick={handleMaterializeSweeps} variant="secondary" size="sm">Add Sweep Transfers</Button>
+          </div>
+        )}
         <div className="px-4 py-3 border-b border-slate-100 flex flex-wrap items-center gap-2">
           <span className="text-xs font-bold text-slate-500 uppercase">Reorder Accounts</span>
           {orderedCashAccounts.map((acc) => (
@@ -206,11 +483,18 @@ const MonthDetail: React.FC = () => {
               {forecastData.map(point => (
                 <tr key={point.date} className="hover:bg-slate-50 transition">
                   <td className="px-4 py-2 text-slate-600 font-mono">{point.date}</td>
-                  {orderedCashAccounts.map(acc => (
-                    <td key={acc.id} className="px-4 py-2 font-semibold text-slate-700">
-                      {formatCurrency(point.balances[acc.id] || 0)}
-                    </td>
-                  ))}
+                  {orderedCashAccounts.map(acc => {
+                    const balance = point.balances[acc.id] || 0;
+                    const isBelowMinimum = typeof acc.minimum_balance === 'number' && balance < acc.minimum_balance;
+                    return (
+                      <td
+                        key={acc.id}
+                        className={`px-4 py-2 font-semibold ${isBelowMinimum ? 'text-red-600 bg-red-50' : 'text-slate-700'}`}
+                      >
+                        {formatCurrency(balance, accountCurrency(acc.id))}
+                      </td>
+                    );
+                  })}
                 </tr>
               ))}
               {forecastData.length === 0 && (
@@ -225,6 +509,356 @@ const MonthDetail: React.FC = () => {
         </div>
       </div>
 
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Reconcile</h3>
+          <p className="text-xs text-slate-500">Check a bank balance against the forecast</p>
+        </div>
+        <div className="p-4 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Account</label>
+            <select
+              value={reconcileAccount?.id || ''}
+              onChange={(e) => setReconcileAccountId(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              {sortedAccounts.filter(acc => acc.type !== 'loan').map(acc => (
+                <option key={acc.id} value={acc.id}>{acc.name}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">As Of</label>
+            <input
+              type="date"
+              value={reconcileOn}
+              min={`${currentSnapshot.id}-01`}
+              max={forecastData[forecastData.length - 1]?.date}
+              onChange={(e) => setReconcileDate(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Bank Balance</label>
+            <input
+              type="number"
+              step="0.01"
+              value={bankBalance}
+              onChange={(e) => setBankBalance(e.target.value)}
+              onKeyDown={handleAmountKeyDown}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <Button onClick={handleRecordReconciliation} variant="primary" disabled={bankBalance === '' || !reconcileAccount}>
+            Record
+          </Button>
+        </div>
+        <div className="px-4 pb-4 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-xs font-bold text-slate-500 uppercase">Forecast Balance</p>
+            <p className="font-semibold text-slate-800">{formatCurrency(reconcileForecastBalance, accountCurrency(reconcileAccount?.id))}</p>
+            {bankBalance !== '' && (
+              <p className={`text-xs font-semibold ${roundToCents(Number(bankBalance) - reconcileForecastBalance) === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                Off by {formatCurrency(Number(bankBalance) - reconcileForecastBalance, accountCurrency(reconcileAccount?.id))}
+              </p>
+            )}
+          </div>
+          <div>
+            <p className="text-xs font-bold text-slate-500 uppercase">Cleared Balance</p>
+            <p className="font-semibold text-slate-800">{formatCurrency(reconcileClearedBalance, accountCurrency(reconcileAccount?.id))}</p>
+            {bankBalance !== '' && (
+              <p className={`text-xs font-semibold ${roundToCents(Number(bankBalance) - reconcileClearedBalance) === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                Off by {formatCurrency(Number(bankBalance) - reconcileClearedBalance, accountCurrency(reconcileAccount?.id))}
+              </p>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            When the bank balance matches the cleared balance, cleared transactions through that date are marked reconciled.
+          </p>
+        </div>
+        {(currentSnapshot.reconciliations || []).length > 0 && (
+          <div className="overflow-x-auto border-t border-slate-100">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-2 font-bold">Date</th>
+                  <th className="px-4 py-2 font-bold">Account</th>
+                  <th className="px-4 py-2 font-bold text-right">Bank</th>
+                  <th className="px-4 py-2 font-bold text-right">Forecast</th>
+                  <th className="px-4 py-2 font-bold text-right">Discrepancy</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {[...(currentSnapshot.reconciliations || [])].sort((a, b) => a.date.localeCompare(b.date)).map(entry => {
+                  const discrepancy = roundToCents(entry.bank_balance - entry.forecast_balance);
+                  return (
+                    <tr key={entry.id}>
+                      <td className="px-4 py-2 font-mono text-slate-600">{entry.date}</td>
+                      <td className="px-4 py-2 text-slate-700">
+                        {currentSnapshot.accounts.find(acc => acc.id === entry.account_id)?.name || entry.account_id}
+                      </td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(entry.bank_balance, accountCurrency(entry.account_id))}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(entry.forecast_balance, accountCurrency(entry.account_id))}</td>
+                      <td className={`px-4 py-2 text-right font-bold ${discrepancy === 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(discrepancy, accountCurrency(entry.account_id))}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <Button onClick={() => handleDeleteReconciliation(entry.id)} variant="dangerGhost" size="sm">Remove</Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="p-4 border-t border-slate-100 space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-slate-700">
+            <input
+              type="checkbox"
+              checked={showAccuracy}
+              onChange={(e) => setShowAccuracy(e.target.checked)}
+              className="w-4 h-4 rounded text-blue-600"
+            />
+            Show forecast accuracy by category (last {ACCURACY_MONTHS} months)
+          </label>
+          {showAccuracy && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-2 font-bold">Category</th>
+                    {accuracyMonthIds.map(id => (
+                      <th key={id} className="px-4 py-2 font-bold text-right">{id}</th>
+                    ))}
+                    <th className="px-4 py-2 font-bold text-right">Forecast</th>
+                    <th className="px-4 py-2 font-bold text-right">Actual</th>
+                    <th className="px-4 py-2 font-bold text-right">Avg Error</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {accuracy.map(row => (
+                    <tr key={row.category_id}>
+                      <td className="px-4 py-2 font-semibold text-slate-700">
+                        {currentSnapshot.categories.find(cat => cat.id === row.category_id)?.name || 'Uncategorized'}
+                      </td>
+                      {accuracyMonthIds.map(id => {
+                        const month = row.months.find(entry => entry.month_id === id);
+                        const variance = month ? roundToCents(month.actual - month.forecast) : null;
+                        return (
+                          <td key={id} className={`px-4 py-2 text-right ${variance ? 'text-amber-700' : 'text-slate-400'}`}>
+                            {variance === null ? '-' : formatCurrency(variance)}
+                          </td>
+                        );
+                      })}
+                      <td className="px-4 py-2 text-right">{formatCurrency(row.forecast_total)}</td>
+                      <td className="px-4 py-2 text-right">{formatCurrency(row.actual_total)}</td>
+                      <td className="px-4 py-2 text-right font-semibold">
+                        {row.mean_absolute_percent_error === null ? '-' : `${(row.mean_absolute_percent_error * 100).toFixed(1)}%`}
+                      </td>
+                    </tr>
+                  ))}
+                  {accuracy.length === 0 && (
+                    <tr>
+                      <td colSpan={accuracyMonthIds.length + 4} className="px-4 py-6 text-center text-slate-400 italic">
+                        Mark transactions cleared or enter actual amounts to build the report.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+              <p className="text-xs text-slate-500 mt-2">Monthly cells show actual minus forecast.</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="p-4 border-b border-slate-100 flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Import Bank Statement</h3>
+          <p className="text-xs text-slate-500">Match statement rows to the forecast as actuals</p>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 uppercase">CSV Profile</label>
+              <select
+                value={importProfile?.id || ''}
+                onChange={(e) => {
+                  setImportProfileId(e.target.value);
+                  setImportAccountId('');
+                  setImportCategoryId('');
+                  setImportPreview(null);
+                }}
+                className="w-full px-3 py-2 border rounded-lg"
+                disabled={importProfiles.length === 0}
+              >
+                {importProfiles.length === 0 && <option value="">None (OFX/QFX only)</option>}
+                {importProfiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 uppercase">Account</label>
+              <select
+                value={importAccount?.id || ''}
+                onChange={(e) => {
+                  setImportAccountId(e.target.value);
+                  setImportPreview(ofxStatement ? buildBankImportPreview(ofxStatement.rows, currentSnapshot, e.target.value, forecastSettings) : null);
+                }}
+                className="w-full px-3 py-2 border rounded-lg"
+              >
+                {sortedAccounts.filter(acc => acc.type !== 'loan').map(acc => (
+                  <option key={acc.id} value={acc.id}>{acc.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 uppercase">Category for New Rows</label>
+              <select
+                value={importCategoryIdResolved}
+                onChange={(e) => setImportCategoryId(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg"
+              >
+                <option value="">Select category</option>
+                {sortedCategories.map(cat => (
+                  <option key={cat.id} value={cat.id}>{cat.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            rows={4}
+            className="w-full px-3 py-2 border rounded-lg font-mono text-xs"
+            placeholder="Paste a statement CSV or OFX/QFX file here"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <Button onClick={() => handlePreviewImport()} variant="secondary" disabled={!importText.trim()}>
+              Preview
+            </Button>
+            <label className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg font-semibold hover:bg-slate-200 transition cursor-pointer">
+              Upload CSV
+              <input type="file" className="hidden" accept=".csv,.txt,.ofx,.qfx,text/csv" onChange={handleImportFile} />
+            </label>
+            {importStatus && <span className="text-xs text-slate-500">{importStatus}</span>}
+          </div>
+          {ofxStatement && ofxStatements && (
+            <div className="space-y-2 text-sm">
+              <div className="flex flex-wrap items-center gap-3">
+                {ofxStatements.length > 1 && (
+                  <select
+                    value={ofxIndex}
+                    onChange={(e) => previewOfxStatement(ofxStatements, Number(e.target.value))}
+                    className="px-3 py-2 border rounded-lg"
+                  >
+                    {ofxStatements.map((statement, index) => (
+                      <option key={`${statement.account_number}:${index}`} value={index}>
+                        {statement.account_type} ···{statement.account_number.slice(-4)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <span className="text-slate-600">
+                  {ofxStatement.account_type} account ···{ofxStatement.account_number.slice(-4)}
+                  {ofxStatement.start_date && ofxStatement.end_date && `, ${ofxStatement.start_date} to ${ofxStatement.end_date}`}
+                </span>
+              </div>
+              {ofxStatement.ledger_balance && (
+                <label className="flex items-center gap-2 text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={recordOfxBalance}
+                    onChange={(e) => setRecordOfxBalance(e.target.checked)}
+                    disabled={!ofxStatement.ledger_balance.date.startsWith(currentSnapshot.id)}
+                    className="w-4 h-4 rounded text-blue-600"
+                  />
+                  Reconcile against the ledger balance of {formatCurrency(ofxStatement.ledger_balance.amount, ofxStatement.currency || accountCurrency(importAccount?.id))} on {ofxStatement.ledger_balance.date}
+                  {!ofxStatement.ledger_balance.date.startsWith(currentSnapshot.id) && ' (outside this month)'}
+                </label>
+              )}
+              {ofxStatement.currency && importAccount && ofxStatement.currency !== accountCurrency(importAccount.id) && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                  The statement is in {ofxStatement.currency} but {importAccount.name} is in {accountCurrency(importAccount.id)}.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+        {importPreview && (
+          <div className="border-t border-slate-100">
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                  <tr>
+                    <th className="px-4 py-2 font-bold">Date</th>
+                    <th className="px-4 py-2 font-bold">Description</th>
+                    <th className="px-4 py-2 font-bold text-right">Amount</th>
+                    <th className="px-4 py-2 font-bold">Import As</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {importPreview.map((entry, index) => (
+                    <tr key={entry.row.import_id} className={entry.action === 'skip' ? 'text-slate-400' : ''}>
+                      <td className="px-4 py-2 font-mono whitespace-nowrap">{entry.row.date}</td>
+                      <td className="px-4 py-2">{entry.row.description}</td>
+                      <td className={`px-4 py-2 text-right font-semibold ${entry.row.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(entry.row.amount, accountCurrency(importAccount?.id))}
+                      </td>
+                      <td className="px-4 py-2">
+                        {entry.outside_month ? (
+                          <span className="text-xs italic">Outside this month</span>
+                        ) : entry.duplicate_of ? (
+                          <span className="text-xs italic">Already here: {describeImportTarget(entry.duplicate_of)}</span>
+                        ) : (
+                          <select
+                            value={entry.action === 'match' ? `match:${entry.match_id}` : entry.action}
+                            onChange={(e) => updateImportAction(index, e.target.value)}
+                            className="w-full px-2 py-1 border rounded-lg text-xs"
+                          >
+                            {entry.candidates.map(id => (
+                              <option key={id} value={`match:${id}`}>Actual for {describeImportTarget(id)}</option>
+                            ))}
+                            <option value="new">New transaction</option>
+                            <option value="skip">Skip</option>
+                          </select>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {importPreview.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-slate-400 italic">No statement rows found.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="p-4 flex justify-end gap-3">
+              <Button
+                onClick={() => {
+                  setImportPreview(null);
+                  setOfxStatements(null);
+                }}
+                variant="secondary"
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleApplyImport}
+                variant="primary"
+                disabled={!importPreview.some(entry => entry.action !== 'skip')}
+              >
+                Import
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
         <div className="p-4 border-b border-slate-100 flex flex-col md:flex-row justify-between items-center gap-4">
           <h3 className="text-lg font-bold text-slate-800">Transactions</h3>
@@ -246,6 +880,7 @@ const MonthDetail: React.FC = () => {
                 <th className="px-6 py-3 font-bold">Category</th>
                 <th className="px-6 py-3 font-bold">Account</th>
                 <th className="px-6 py-3 font-bold text-right">Amount</th>
+                <th className="px-6 py-3 font-bold text-center">Status</th>
                 <th className="px-6 py-3 font-bold text-center">Actions</th>
               </tr>
             </thead>
@@ -256,7 +891,20 @@ const MonthDetail: React.FC = () => {
                 return (
                   <tr key={tx.id} className="hover:bg-slate-50 transition">
                     <td className="px-6 py-4 text-slate-600 font-mono">{tx.date}</td>
-                    <td className="px-6 py-4 font-medium text-slate-800">{tx.description}</td>
+                    <td className="px-6 py-4 font-medium text-slate-800">
+                      {tx.description}
+                      {tx.user_modified && (
+                        <span className="ml-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-blue-100 text-blue-700">Edited</span>
+                      )}
+                      {tx.source_changed && (
+                        <span
+                          className="ml-2 px-2 py-0.5 rounded text-[10px] font-bold uppercase bg-amber-100 text-amber-700"
+                          title="The recurring source changed since this edit. Review or revert to the generated values."
+                        >
+                          Source changed
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 text-slate-600">
                       <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${cat?.type === 'income' ? 'bg-green-100 text-green-700' : 'bg-slate-100 text-slate-600'}`}>
                         {cat?.name}
@@ -265,6 +913,25 @@ const MonthDetail: React.FC = () => {
                     <td className="px-6 py-4 text-slate-600 text-xs font-semibold">{acc?.name}</td>
                     <td className={`px-6 py-4 text-right font-bold ${tx.amount >= 0 ? 'text-green-600' : 'text-slate-800'}`}>
                       {tx.amount > 0 ? '+' : ''}{tx.amount.toFixed(2)}
+                      {typeof tx.actual_amount === 'number' && (
+                        <span className="block text-[10px] font-semibold text-slate-500">
+                          actual {tx.actual_amount > 0 ? '+' : ''}{tx.actual_amount.toFixed(2)}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-center">
+                      <button
+                        type="button"
+                        onClick={() => handleToggleStatus(tx)}
+                        title="Click to change status"
+                        className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${
+                          tx.status === 'reconciled'
+                            ? 'bg-green-100 text-green-700'
+                            : tx.status === 'cleared' ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-500'
+                        }`}
+                      >
+                        {tx.status || 'pending'}
+                      </button>
                     </td>
                     <td className="px-6 py-4 text-center">
                       <div className="flex justify-center space-x-2">
@@ -281,7 +948,7 @@ const MonthDetail: React.FC = () => {
               })}
               {filteredTransactions.length === 0 && (
                 <tr>
-                  <td colSpan={6} className="px-6 py-12 text-center text-slate-400 italic">No transactions found.</td>
+                  <td colSpan={7} className="px-6 py-12 text-center text-slate-400 italic">No transactions found.</td>
                 </tr>
               )}
             </tbody>
@@ -326,6 +993,36 @@ const MonthDetail: React.FC = () => {
                   className="w-full px-3 py-2 border rounded-lg font-bold"
                 />
               </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Status</label>
+                <select
+                  value={editingTx.status || 'pending'}
+                  onChange={(e) => {
+                    const status = e.target.value as TransactionStatus;
+                    setEditingTx({ ...editingTx, status: status === 'pending' ? undefined : status });
+                  }}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  <option value="pending">Pending</option>
+                  <option value="cleared">Cleared</option>
+                  <option value="reconciled">Reconciled</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Actual Amount</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={typeof editingTx.actual_amount === 'number' ? Math.abs(editingTx.actual_amount) : ''}
+                  placeholder="Same as forecast"
+                  onChange={(e) => setEditingTx({
+                    ...editingTx,
+                    actual_amount: e.target.value === '' ? undefined : parseFloat(e.target.value) || 0
+                  })}
+                  onKeyDown={handleAmountKeyDown}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
               <div className="col-span-2 space-y-1">
                 <label className="text-xs font-bold text-slate-500 uppercase">Description</label>
                 <input 
@@ -372,6 +1069,21 @@ const MonthDetail: React.FC = () => {
                   </select>
                 </div>
               )}
+              {editingTx.transaction_type === 'transfer' && (settings.savings_goals || []).length > 0 && (
+                <div className="space-y-1 col-span-2">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Savings Goal (Optional)</label>
+                  <select
+                    value={editingTx.goal_id || ''}
+                    onChange={(e) => setEditingTx({ ...editingTx, goal_id: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">No Goal</option>
+                    {(settings.savings_goals || []).map(goal => (
+                      <option key={goal.id} value={goal.id}>{goal.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="space-y-1 col-span-2">
                 <label className="text-xs font-bold text-slate-500 uppercase">Loan (Optional)</label>
                 <select
@@ -386,7 +1098,15 @@ const MonthDetail: React.FC = () => {
                 </select>
               </div>
             </div>
+            {editingTx.source === 'generated' && (
+              <p className="text-xs text-slate-500">
+                This transaction is generated. Your changes are kept the next time the month is regenerated.
+              </p>
+            )}
             <div className="flex justify-end space-x-3 pt-4 border-t">
+              {editingTx.user_modified && (
+                <Button onClick={handleRevertTx} variant="ghost">Revert to Generated</Button>
+              )}
               <Button onClick={() => setEditingTx(null)} variant="secondary">Cancel</Button>
               <Button onClick={handleSaveTx} variant="primary">Save Transaction</Button>
             </div>
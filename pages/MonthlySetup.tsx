@@ -2,25 +2,48 @@ import React, { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useApp } from '../App';
 import { storage } from '../lib/storage';
-import { generateMonthTransactions, GenerateMode, getScheduleDates } from '../lib/generate';
-import { calculateForecast } from '../lib/forecasting';
+import {
+  applyGenerationRun,
+  applyTransactionDiff,
+  GenerateMode,
+  getScheduleDates,
+  previewMonthGeneration,
+  resolveRecurringAmount,
+  rollbackGenerationRun
+} from '../lib/generate';
+import { calculateForecast, getCardStatements } from '../lib/forecasting';
 import { roundToCents } from '../lib/number';
 import { formatMonthLabel } from '../lib/format';
-import { MonthSetup, OneOffAdjustment, PaycheckDepositSplit, PaycheckEntry, RecurringItemType } from '../types';
+import { describeRecurrence } from '../lib/recurrence';
+import { addMonths, buildMonthRange } from '../src/lib/month';
+import { BusinessDayOptions, createHolidayLookup } from '../src/lib/businessDays';
+import { normalizeVariability } from '../lib/simulation';
+import {
+  BulkGenerationSummary,
+  BulkOneOffPolicy,
+  MonthSetup,
+  OneOffAdjustment,
+  PaycheckDepositSplit,
+  PaycheckEntry,
+  RecurringItemType
+} from '../types';
 import { Button } from '../components/Button';
-import { calculatePayrollForMonth } from '../src/lib/payroll/engine';
+import { calculatePayrollForMonth, DEFAULT_SEMIMONTHLY_DAYS } from '../src/lib/payroll/engine';
 import { getTaxTableSet } from '../src/lib/payroll/taxTables';
-import { TaxTableSet } from '../src/lib/payroll/types';
+import { BusinessDayRoll, SemimonthlyDays, TaxTableSet } from '../src/lib/payroll/types';
 
 const MonthlySetupPage: React.FC = () => {
-  const { currentSnapshot, setSnapshot, settings, refreshSnapshot } = useApp();
+  const { currentSnapshot, setSnapshot, settings, refreshSnapshot, rollForwardFrom, bulkGenerateMonths } = useApp();
   const navigate = useNavigate();
   const [generateMode, setGenerateMode] = useState<GenerateMode>('regenerate');
+  const [pendingGeneration, setPendingGeneration] = useState<ReturnType<typeof previewMonthGeneration> | null>(null);
+  const [rejectedDiffKeys, setRejectedDiffKeys] = useState<Record<string, boolean>>({});
 
   if (!currentSnapshot || !currentSnapshot.month_setup) return null;
 
   const monthSetup = currentSnapshot.month_setup;
   const monthId = currentSnapshot.id;
+  const semimonthlyDays = monthSetup.paycheck_semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS;
 
   const sortedAccounts = [...settings.accounts].sort((a, b) => a.name.localeCompare(b.name));
   const sortedCategories = [...settings.categories].sort((a, b) => a.name.localeCompare(b.name));
@@ -34,10 +57,27 @@ const MonthlySetupPage: React.FC = () => {
   const [paycheckSplitInputs, setPaycheckSplitInputs] = useState<Record<string, string>>({});
   const [taxTableSet, setTaxTableSet] = useState<TaxTableSet | null>(null);
   const [taxTableNotice, setTaxTableNotice] = useState<string>('');
+  const [storedMonthIds, setStoredMonthIds] = useState<string[]>([]);
+  const [bulkStartMonth, setBulkStartMonth] = useState<string>(addMonths(monthId, 1));
+  const [bulkEndMonth, setBulkEndMonth] = useState<string>(addMonths(monthId, 6));
+  const [bulkTemplateMonth, setBulkTemplateMonth] = useState<string>(monthId);
+  const [bulkOneOffPolicy, setBulkOneOffPolicy] = useState<BulkOneOffPolicy>('keep');
+  const [bulkSummary, setBulkSummary] = useState<BulkGenerationSummary | null>(null);
+  const [isBulkGenerating, setIsBulkGenerating] = useState(false);
+
+  const isHoliday = useMemo(() => createHolidayLookup(settings.holiday_calendar), [settings.holiday_calendar]);
+  const payDateOptions = useMemo<BusinessDayOptions>(() => ({
+    roll: monthSetup.paycheck_business_day_roll || 'none',
+    isHoliday
+  }), [monthSetup.paycheck_business_day_roll, isHoliday]);
 
   const scheduleDates = useMemo(() => {
-    return getScheduleDates(monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date);
-  }, [monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date]);
+    return getScheduleDates(monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date, semimonthlyDays, payDateOptions);
+  }, [monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date, semimonthlyDays, payDateOptions]);
+
+  useEffect(() => {
+    storage.listMonths().then(ids => setStoredMonthIds(ids.sort()));
+  }, [monthId, bulkSummary]);
 
   useEffect(() => {
     let isActive = true;
@@ -66,6 +106,8 @@ const MonthlySetupPage: React.FC = () => {
       monthId,
       schedule: monthSetup.paycheck_schedule,
       anchorDate: monthSetup.paycheck_anchor_date,
+      semimonthlyDays,
+      businessDays: payDateOptions,
       payrollSettings: settings.payroll_settings,
       taxTables: taxTableSet,
     });
@@ -76,7 +118,7 @@ const MonthlySetupPage: React.FC = () => {
       is_bonus: paycheck.is_bonus,
       description: paycheck.description || (paycheck.is_bonus ? 'Bonus' : 'Paycheck')
     }));
-  }, [monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date, settings.payroll_settings, taxTableSet]);
+  }, [monthId, monthSetup.paycheck_schedule, monthSetup.paycheck_anchor_date, semimonthlyDays, payDateOptions, settings.payroll_settings, taxTableSet]);
 
   const buildEntryKey = (entry: { date: string; is_bonus?: boolean }) => `${entry.date}:${entry.is_bonus ? 'bonus' : 'regular'}`;
 
@@ -189,7 +231,7 @@ const MonthlySetupPage: React.FC = () => {
     setBalanceInputs(prev => ({ ...prev, [accountId]: raw }));
   };
 
-  const commitStartingBalance = (accountId: string) => {
+  const commitStartingBalance = async (accountId: string) => {
     const raw = balanceInputs[accountId];
     if (raw === undefined) return;
     const parsed = Number(raw);
@@ -204,7 +246,14 @@ const MonthlySetupPage: React.FC = () => {
     );
     const updatedSnapshot = { ...currentSnapshot, starting_balances: updatedBalances, updated_at: Date.now() };
     setSnapshot(updatedSnapshot);
-    storage.upsertMonth(updatedSnapshot);
+    await storage.upsertMonth(updatedSnapshot);
+    await rollForwardFrom(updatedSnapshot);
+  };
+
+  const togglePinnedBalances = async (pinned: boolean) => {
+    const updatedSnapshot = { ...currentSnapshot, starting_balances_pinned: pinned, updated_at: Date.now() };
+    setSnapshot(updatedSnapshot);
+    await storage.upsertMonth(updatedSnapshot);
   };
 
   const updatePaycheckEntries = (entries: PaycheckEntry[]) => {
@@ -219,6 +268,16 @@ const MonthlySetupPage: React.FC = () => {
     updateMonthSetup({ paycheck_anchor_date: anchorDate, paycheck_overrides: [] });
   };
 
+  const handlePayDateRollChange = (roll: BusinessDayRoll) => {
+    updateMonthSetup({ paycheck_business_day_roll: roll, paycheck_overrides: [] });
+  };
+
+  const handleSemimonthlyDayChange = (index: number, value: string) => {
+    const next = [...semimonthlyDays] as SemimonthlyDays;
+    next[index] = value.trim().toLowerCase();
+    updateMonthSetup({ paycheck_semimonthly_days: next, paycheck_overrides: [] });
+  };
+
   const handleDefaultPaycheckAmount = (value: number) => {
     updateMonthSetup({ paycheck_default_amount: value });
   };
@@ -388,7 +447,7 @@ const MonthlySetupPage: React.FC = () => {
       alert('No previous month found to pull balances from.');
       return;
     }
-    const previousForecast = calculateForecast(previousSnapshot);
+    const previousForecast = calculateForecast(previousSnapshot, settings);
     const lastPoint = previousForecast[previousForecast.length - 1];
     if (!lastPoint) {
       alert('Previous month has no forecast data to pull balances from.');
@@ -401,6 +460,7 @@ const MonthlySetupPage: React.FC = () => {
     const updatedSnapshot = { ...currentSnapshot, starting_balances: nextBalances, updated_at: Date.now() };
     setSnapshot(updatedSnapshot);
     await storage.upsertMonth(updatedSnapshot);
+    await rollForwardFrom(updatedSnapshot);
   };
 
   const handleDeleteMonthSnapshot = async () => {
@@ -422,31 +482,116 @@ const MonthlySetupPage: React.FC = () => {
   };
 
   const handleGenerate = async () => {
-    if (generateMode === 'reset') {
-      const confirmed = confirm('This will delete ALL transactions for the month. Continue?');
-      if (!confirmed) return;
-    }
-    const result = generateMonthTransactions(
+    // Card payments due before this month's closing day settle last month's statement
+    const previousSnapshot = await storage.getMonth(addMonths(monthId, -1));
+    const cardStatements = previousSnapshot
+      ? getCardStatements(
+          { ...previousSnapshot, accounts: currentSnapshot.accounts, categories: currentSnapshot.categories },
+          settings
+        )
+      : undefined;
+    const preview = previewMonthGeneration(
       monthId,
       monthSetup,
       settings.recurring_items,
       currentSnapshot.transactions,
-      generateMode
+      generateMode,
+      isHoliday,
+      { snapshot: currentSnapshot, settings, card_statements: cardStatements }
     );
+    setRejectedDiffKeys({});
+    setPendingGeneration(preview);
+  };
+
+  const toggleDiffRow = (key: string) => {
+    setRejectedDiffKeys(prev => ({ ...prev, [key]: !prev[key] }));
+  };
 
+  const applyPendingGeneration = async () => {
+    if (!pendingGeneration) return;
+    const rejected = new Set(Object.keys(rejectedDiffKeys).filter(key => rejectedDiffKeys[key]));
     const updatedSnapshot = {
-      ...currentSnapshot,
-      transactions: result.transactions,
-      month_setup: result.month_setup,
-      updated_at: Date.now(),
+      ...applyGenerationRun(currentSnapshot, {
+        batch_id: pendingGeneration.batch_id,
+        mode: generateMode,
+        month_setup: pendingGeneration.month_setup,
+        transactions: applyTransactionDiff(pendingGeneration.transactions, pendingGeneration.diff, rejected)
+      }),
       schema_version: 6
     };
 
+    setPendingGeneration(null);
     setSnapshot(updatedSnapshot);
     await storage.upsertMonth(updatedSnapshot);
+    await rollForwardFrom(updatedSnapshot);
     navigate('/month');
   };
 
+  const handleRollbackGeneration = async (batchId: string) => {
+    const confirmed = confirm('Undo this generation run and any later ones? Rows you have edited, cleared or imported since are kept.');
+    if (!confirmed) return;
+    const updatedSnapshot = rollbackGenerationRun(currentSnapshot, batchId);
+    if (!updatedSnapshot) return;
+    setSnapshot(updatedSnapshot);
+    await storage.upsertMonth(updatedSnapshot);
+    await rollForwardFrom(updatedSnapshot);
+  };
+
+  const handleBulkGenerate = async () => {
+    if (!bulkStartMonth || !bulkEndMonth || bulkStartMonth > bulkEndMonth) {
+      alert('Choose a start month on or before the end month.');
+      return;
+    }
+    // A reset has no per-month preview, so spell out the manual and imported rows it deletes
+    if (generateMode === 'reset') {
+      const losses: string[] = [];
+      for (const id of buildMonthRange(bulkStartMonth, bulkEndMonth)) {
+        const month = id === currentSnapshot.id ? currentSnapshot : await storage.getMonth(id);
+        const manual = (month?.transactions || []).filter(tx => tx.source !== 'generated');
+        if (manual.length) {
+          losses.push(`${formatMonthLabel(id)}: ${manual.map(tx => `${tx.date} ${tx.description || 'Untitled'} (${tx.amount.toFixed(2)})`).join(', ')}`);
+        }
+      }
+      const range = `${formatMonthLabel(bulkStartMonth)} to ${formatMonthLabel(bulkEndMonth)}`;
+      const message = losses.length
+        ? `Full reset of ${range} deletes these manual transactions:\n\n${losses.join('\n')}\n\nContinue?`
+        : `Full reset of ${range} replaces every generated transaction. No manual transactions are affected. Continue?`;
+      if (!confirm(message)) return;
+    }
+    await storage.upsertMonth(currentSnapshot);
+    setIsBulkGenerating(true);
+    try {
+      const summary = await bulkGenerateMonths({
+        start_month_id: bulkStartMonth,
+        end_month_id: bulkEndMonth,
+        template_month_id: bulkTemplateMonth,
+        mode: generateMode,
+        one_off_policy: bulkOneOffPolicy
+      });
+      setBulkSummary(summary);
+    } finally {
+      setIsBulkGenerating(false);
+    }
+  };
+
+  const formatModeLabel = (mode: GenerateMode) => {
+    if (mode === 'missing') return 'Generate missing';
+    if (mode === 'reset') return 'Full reset';
+    return 'Regenerate';
+  };
+
+  const formatDiffAmount = (before?: number, after?: number) => {
+    if (before === undefined) return after?.toFixed(2) ?? '';
+    if (after === undefined || roundToCents(before) === roundToCents(after)) return before.toFixed(2);
+    return `${before.toFixed(2)} → ${after.toFixed(2)}`;
+  };
+
+  const formatDiffDate = (before?: string, after?: string) => {
+    if (!before) return after || '';
+    if (!after || before === after) return before;
+    return `${before} → ${after}`;
+  };
+
   const formatTypeLabel = (type: RecurringItemType) => {
     if (type === 'income') return 'Income';
     if (type === 'transfer') return 'Transfer';
@@ -493,6 +638,18 @@ const MonthlySetupPage: React.FC = () => {
             );
           })}
         </div>
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="pin_starting_balances"
+            checked={Boolean(currentSnapshot.starting_balances_pinned)}
+            onChange={(e) => togglePinnedBalances(e.target.checked)}
+            className="w-4 h-4 rounded text-blue-600"
+          />
+          <label htmlFor="pin_starting_balances" className="text-sm font-medium text-slate-700">
+            Reconciled actuals (earlier months will not roll forward into these balances)
+          </label>
+        </div>
       </section>
 
       <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
@@ -521,6 +678,34 @@ const MonthlySetupPage: React.FC = () => {
               <option value="monthly">Monthly</option>
             </select>
           </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Weekend / Holiday Pay Dates</label>
+            <select
+              value={monthSetup.paycheck_business_day_roll || 'none'}
+              onChange={(e) => handlePayDateRollChange(e.target.value as BusinessDayRoll)}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              <option value="none">Keep scheduled date</option>
+              <option value="previous">Previous business day</option>
+              <option value="next">Next business day</option>
+            </select>
+          </div>
+          {monthSetup.paycheck_schedule === 'semimonthly' && (
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 uppercase">Pay Days (day or "last")</label>
+              <div className="flex gap-2">
+                {semimonthlyDays.map((day, index) => (
+                  <input
+                    key={index}
+                    type="text"
+                    value={day}
+                    onChange={(e) => handleSemimonthlyDayChange(index, e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                ))}
+              </div>
+            </div>
+          )}
           <div className="space-y-1">
             <label className="text-xs font-bold text-slate-500 uppercase">Anchor Date</label>
             <input
@@ -678,20 +863,23 @@ const MonthlySetupPage: React.FC = () => {
             <tbody className="divide-y divide-slate-100">
           {settings.recurring_items.map(item => {
                 const override = monthSetup.variable_overrides.find(o => o.item_id === item.id);
+                const monthAmount = resolveRecurringAmount(item, `${monthId}-01`);
                 return (
                   <tr key={item.id} className="hover:bg-slate-50 transition">
                     <td className="px-4 py-2">
                       <div className="font-semibold text-slate-800">{item.name}</div>
-                      <div className="text-xs text-slate-400">{item.day_rule}</div>
+                      <div className="text-xs text-slate-400">
+                        {item.cadence === 'custom' && item.recurrence ? describeRecurrence(item.recurrence) : item.day_rule}
+                      </div>
                     </td>
                     <td className="px-4 py-2 capitalize">{item.cadence}</td>
-                    <td className="px-4 py-2">{item.default_amount.toFixed(2)}</td>
+                    <td className="px-4 py-2">{monthAmount.toFixed(2)}</td>
                     <td className="px-4 py-2">
                       <input
                         type="number"
                         value={override?.amount ?? ''}
                         onChange={(e) => handleVariableOverride(item.id, e.target.value)}
-                        placeholder={item.default_amount.toFixed(2)}
+                        placeholder={monthAmount.toFixed(2)}
                         className="w-full px-3 py-2 border rounded-lg"
                       />
                     </td>
@@ -744,6 +932,17 @@ const MonthlySetupPage: React.FC = () => {
                 onKeyDown={handleAmountKeyDown}
                 className="px-3 py-2 border rounded-lg"
               />
+              <input
+                type="number"
+                value={oneOff.variability?.std_dev ?? ''}
+                onChange={(e) => updateOneOff(oneOff.id, {
+                  variability: normalizeVariability({ ...oneOff.variability, std_dev: e.target.value === '' ? undefined : Number(e.target.value) })
+                })}
+                onKeyDown={handleAmountKeyDown}
+                placeholder="± Std Dev"
+                title="Standard deviation used by the range forecast"
+                className="px-3 py-2 border rounded-lg"
+              />
               <select
                 value={oneOff.account_id}
                 onChange={(e) => updateOneOff(oneOff.id, { account_id: e.target.value })}
@@ -817,14 +1016,175 @@ const MonthlySetupPage: React.FC = () => {
             <option value="reset">Full reset month</option>
           </select>
           <Button onClick={handleGenerate} variant="success">
-            Generate Forecast
+            Preview Changes
           </Button>
         </div>
         <p className="text-xs text-slate-500">
-          Default is to regenerate generated transactions only, leaving manual entries untouched.
+          Default is to regenerate generated transactions only, leaving manual entries untouched. Changes are previewed before they are saved.
         </p>
       </section>
 
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+        <h3 className="text-lg font-bold text-slate-800">Generation History</h3>
+        <div className="space-y-2">
+          {[...(currentSnapshot.generation_history || [])].reverse().map(run => (
+            <div key={run.batch_id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 py-2 border-b border-slate-50 last:border-0">
+              <div>
+                <p className="text-sm font-semibold text-slate-700">
+                  {new Date(run.generated_at).toLocaleString()} · {formatModeLabel(run.mode)}
+                </p>
+                <p className="text-xs text-slate-500">
+                  {run.added} added · {run.changed} changed · {run.removed} removed
+                </p>
+              </div>
+              <Button onClick={() => handleRollbackGeneration(run.batch_id)} variant="dangerGhost" size="sm">
+                Undo to Before This Run
+              </Button>
+            </div>
+          ))}
+          {!currentSnapshot.generation_history?.length && (
+            <p className="text-sm text-slate-400 italic">No generation runs recorded for this month.</p>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-800">Bulk Generate Months</h3>
+          <p className="text-xs text-slate-500">
+            Creates or updates every month in the range using the template month's paycheck setup and the generate mode above.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">From</label>
+            <input
+              type="month"
+              value={bulkStartMonth}
+              onChange={(e) => setBulkStartMonth(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Through</label>
+            <input
+              type="month"
+              value={bulkEndMonth}
+              onChange={(e) => setBulkEndMonth(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Template Month</label>
+            <select
+              value={bulkTemplateMonth}
+              onChange={(e) => setBulkTemplateMonth(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              {(storedMonthIds.includes(monthId) ? storedMonthIds : [...storedMonthIds, monthId].sort()).map(id => (
+                <option key={id} value={id}>{formatMonthLabel(id)}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">One-off Adjustments</label>
+            <select
+              value={bulkOneOffPolicy}
+              onChange={(e) => setBulkOneOffPolicy(e.target.value as BulkOneOffPolicy)}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              <option value="keep">Keep each month's own</option>
+              <option value="copy">Copy from template</option>
+              <option value="clear">Clear</option>
+            </select>
+          </div>
+        </div>
+        <Button onClick={handleBulkGenerate} variant="success" disabled={isBulkGenerating}>
+          {isBulkGenerating ? 'Generating...' : 'Generate Range'}
+        </Button>
+        {bulkSummary && (
+          <div className="text-xs text-slate-700 bg-slate-50 border border-slate-200 rounded-lg p-3 space-y-1">
+            <p className="font-bold">
+              {bulkSummary.months.length} month{bulkSummary.months.length === 1 ? '' : 's'} generated from {formatMonthLabel(bulkSummary.template_month_id)}
+            </p>
+            {bulkSummary.months.map(month => (
+              <p key={month.month_id}>
+                {formatMonthLabel(month.month_id)} ({month.created ? 'created' : 'updated'}): {month.added} added · {month.changed} changed · {month.removed} removed
+              </p>
+            ))}
+            {bulkSummary.months.length === 0 && <p>The template month has no setup to copy.</p>}
+          </div>
+        )}
+      </section>
+
+      {pendingGeneration && (
+        <div className="fixed inset-0 bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-2xl shadow-xl max-w-3xl w-full p-6 space-y-4 max-h-[90vh] flex flex-col">
+            <div>
+              <h3 className="text-xl font-bold">Review Generated Changes</h3>
+              <p className="text-xs text-slate-500">
+                Uncheck a row to keep the current transaction as it is.
+              </p>
+            </div>
+            <div className="overflow-auto flex-1">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+                  <tr>
+                    <th className="px-3 py-2 font-bold">Apply</th>
+                    <th className="px-3 py-2 font-bold">Change</th>
+                    <th className="px-3 py-2 font-bold">Description</th>
+                    <th className="px-3 py-2 font-bold">Date</th>
+                    <th className="px-3 py-2 font-bold text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {pendingGeneration.diff.map(entry => {
+                    const tx = entry.after || entry.before!;
+                    const badge = entry.kind === 'added'
+                      ? 'bg-green-100 text-green-700'
+                      : entry.kind === 'removed' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700';
+                    return (
+                      <tr key={entry.key} className={rejectedDiffKeys[entry.key] ? 'opacity-50' : ''}>
+                        <td className="px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={!rejectedDiffKeys[entry.key]}
+                            onChange={() => toggleDiffRow(entry.key)}
+                            className="w-4 h-4"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-1 rounded text-[10px] font-bold uppercase ${badge}`}>{entry.kind}</span>
+                        </td>
+                        <td className="px-3 py-2 font-medium text-slate-800">
+                          {tx.description}
+                          {entry.before && entry.before.source !== 'generated' ? (
+                            <span className="ml-2 text-[10px] font-bold uppercase text-red-600">Manual</span>
+                          ) : null}
+                        </td>
+                        <td className="px-3 py-2 font-mono text-slate-600">{formatDiffDate(entry.before?.date, entry.after?.date)}</td>
+                        <td className="px-3 py-2 text-right font-semibold">{formatDiffAmount(entry.before?.amount, entry.after?.amount)}</td>
+                      </tr>
+                    );
+                  })}
+                  {pendingGeneration.diff.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-3 py-6 text-center text-slate-400 italic">
+                        No transaction changes. Applying will only update the generation timestamp.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              <Button onClick={() => setPendingGeneration(null)} variant="secondary">Cancel</Button>
+              <Button onClick={applyPendingGeneration} variant="success">Apply Selected</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
     </div>
   );
 };
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useApp } from '../App';
+import { storage } from '../lib/storage';
+import { buildNetWorthTimeline } from '../lib/networth';
+import { getAccountCurrency } from '../lib/currency';
+import { formatMonthLabel } from '../lib/format';
+import { addMonths, buildMonthRange } from '../src/lib/month';
+import { MonthSnapshot, NetWorthSource } from '../types';
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+
+const SOURCE_LABELS: Record<NetWorthSource, string> = {
+  snapshot: 'Month snapshot',
+  history: 'Gain/Loss history',
+  valuation: 'Investment valuation',
+  loan: 'Loan tracker'
+};
+
+const NetWorthPage: React.FC = () => {
+  const { currentSnapshot, settings } = useApp();
+  const [rangeStart, setRangeStart] = useState<string>('');
+  const [rangeEnd, setRangeEnd] = useState<string>('');
+  const [selectedMonthId, setSelectedMonthId] = useState<string>('');
+  const [snapshots, setSnapshots] = useState<Record<string, MonthSnapshot | null>>({});
+
+  useEffect(() => {
+    if (!currentSnapshot) return;
+    setRangeEnd(currentSnapshot.id);
+    setRangeStart(addMonths(currentSnapshot.id, -11));
+    setSelectedMonthId(currentSnapshot.id);
+  }, [currentSnapshot?.id]);
+
+  const monthIds = useMemo(() => buildMonthRange(rangeStart, rangeEnd), [rangeStart, rangeEnd]);
+
+  useEffect(() => {
+    if (!monthIds.length) return;
+    let isActive = true;
+    Promise.all(
+      monthIds.map(async (monthId) => {
+        const snapshot = currentSnapshot?.id === monthId ? currentSnapshot : await storage.getMonth(monthId);
+        return { monthId, snapshot };
+      })
+    ).then((entries) => {
+      if (!isActive) return;
+      const next: Record<string, MonthSnapshot | null> = {};
+      entries.forEach(({ monthId, snapshot }) => {
+        next[monthId] = snapshot;
+      });
+      setSnapshots(next);
+    });
+    return () => { isActive = false; };
+  }, [monthIds, currentSnapshot]);
+
+  const timeline = useMemo(
+    () => buildNetWorthTimeline(monthIds, snapshots, settings),
+    [monthIds, snapshots, settings]
+  );
+
+  const formatCurrency = (val: number, currency = settings.preferred_currency) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    }).format(val);
+  };
+
+  if (!currentSnapshot) return null;
+
+  const latest = timeline[timeline.length - 1];
+  const first = timeline[0];
+  const change = latest && first ? latest.net_worth - first.net_worth : 0;
+  const selected = timeline.find(month => month.month_id === selectedMonthId) || latest;
+  const selectedItems = selected
+    ? [...selected.items].sort((a, b) => a.kind.localeCompare(b.kind) || b.value - a.value)
+    : [];
+
+  return (
+    <div className="space-y-6 pb-20 md:pb-0">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-extrabold text-slate-900">Net Worth</h2>
+          <p className="text-slate-500">Assets and liabilities at the start of each month</p>
+        </div>
+        <div className="flex gap-3">
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">From</label>
+            <input
+              type="month"
+              value={rangeStart}
+              onChange={(e) => setRangeStart(e.target.value)}
+              className="px-3 py-2 border rounded-lg"
+            />
+          </div>
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">To</label>
+            <input
+              type="month"
+              value={rangeEnd}
+              onChange={(e) => setRangeEnd(e.target.value)}
+              className="px-3 py-2 border rounded-lg"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Assets</p>
+          <p className="text-2xl font-bold text-slate-800">{formatCurrency(latest?.assets ?? 0)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Liabilities</p>
+          <p className="text-2xl font-bold text-red-600">{formatCurrency(latest?.liabilities ?? 0)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Net Worth</p>
+          <p className={`text-2xl font-bold ${(latest?.net_worth ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatCurrency(latest?.net_worth ?? 0)}
+          </p>
+          {latest && <p className="text-xs text-slate-400 mt-1">As of {formatMonthLabel(latest.month_id)}</p>}
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <p className="text-sm font-medium text-slate-500 mb-1">Change Over Range</p>
+          <p className={`text-2xl font-bold ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>{formatCurrency(change)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 h-80">
+        <h3 className="text-lg font-bold text-slate-800 mb-4">Net Worth Over Time</h3>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={timeline}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f0f0f0" />
+            <XAxis dataKey="month_id" tickFormatter={(value) => value.slice(2)} stroke="#94a3b8" fontSize={12} />
+            <YAxis stroke="#94a3b8" fontSize={12} />
+            <Tooltip
+              formatter={(value: number, name: string) => [
+                formatCurrency(value),
+                name === 'net_worth' ? 'Net Worth' : name === 'assets' ? 'Assets' : 'Liabilities'
+              ]}
+              contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgb(0 0 0 / 0.1)' }}
+            />
+            <Line type="monotone" dataKey="assets" stroke="#16a34a" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="liabilities" stroke="#dc2626" strokeWidth={2} dot={false} />
+            <Line type="monotone" dataKey="net_worth" stroke="#0f172a" strokeWidth={3} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+        <h3 className="text-lg font-bold text-slate-800 mb-4">By Month</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500">
+              <tr>
+                <th className="px-4 py-2 font-bold">Month</th>
+                <th className="px-4 py-2 font-bold text-right">Assets</th>
+                <th className="px-4 py-2 font-bold text-right">Liabilities</th>
+                <th className="px-4 py-2 font-bold text-right">Net Worth</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {timeline.map(month => (
+                <tr
+                  key={month.month_id}
+                  onClick={() => setSelectedMonthId(month.month_id)}
+                  className={`cursor-pointer transition ${month.month_id === selected?.month_id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                >
+                  <td className="px-4 py-3 font-semibold text-slate-700">{formatMonthLabel(month.month_id)}</td>
+                  <td className="px-4 py-3 text-right">{formatCurrency(month.assets)}</td>
+                  <td className="px-4 py-3 text-right text-red-600">{formatCurrency(month.liabilities)}</td>
+                  <td className={`px-4 py-3 text-right font-bold ${month.net_worth >= 0 ? 'text-slate-800' : 'text-red-600'}`}>
+                    {formatCurrency(month.net_worth)}
+                  </td>
+                </tr>
+              ))}
+              {timeline.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-6 text-center text-slate-400 italic">
+                    Select a valid month range.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-slate-400 mt-2">Click a month to see its accounts.</p>
+      </div>
+
+      {selected && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100">
+          <h3 className="text-lg font-bold text-slate-800 mb-4">{formatMonthLabel(selected.month_id)} by Account</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-2 font-bold">Account</th>
+                  <th className="px-4 py-2 font-bold">Kind</th>
+                  <th className="px-4 py-2 font-bold">Source</th>
+                  <th className="px-4 py-2 font-bold text-right">Balance</th>
+                  <th className="px-4 py-2 font-bold text-right">Value ({settings.preferred_currency})</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {selectedItems.map(item => {
+                  const account = settings.accounts.find(acc => acc.id === item.id);
+                  return (
+                    <tr key={item.id}>
+                      <td className="px-4 py-3 font-semibold text-slate-700">{item.name}</td>
+                      <td className="px-4 py-3 text-slate-500 capitalize">{item.kind}</td>
+                      <td className="px-4 py-3 text-slate-500">{SOURCE_LABELS[item.source]}</td>
+                      <td className="px-4 py-3 text-right">
+                        {formatCurrency(item.balance, getAccountCurrency(account, settings.preferred_currency))}
+                      </td>
+                      <td className={`px-4 py-3 text-right font-bold ${item.kind === 'liability' ? 'text-red-600' : 'text-slate-800'}`}>
+                        {formatCurrency(item.value)}
+                      </td>
+                    </tr>
+                  );
+                })}
+                {selectedItems.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-slate-400 italic">
+                      No balances recorded for this month.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NetWorthPage;
@@ -2,10 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useApp } from '../App';
 import { Button } from '../components/Button';
-import { calculatePayrollForMonth } from '../src/lib/payroll/engine';
+import { calculatePayrollForMonth, DEFAULT_SEMIMONTHLY_DAYS } from '../src/lib/payroll/engine';
 import { getTaxTableSet, listTaxTableYears } from '../src/lib/payroll/taxTables';
-import { BonusEvent, BonusWithholdingMethod, PayrollSettings } from '../src/lib/payroll/types';
+import { BonusEvent, BonusWithholdingMethod, BusinessDayRoll, PayrollSettings, SemimonthlyDays } from '../src/lib/payroll/types';
 import { formatMonthLabel } from '../lib/format';
+import { createHolidayLookup } from '../src/lib/businessDays';
 
 const PayrollSettingsPage: React.FC = () => {
   const { settings, updateSettings, currentSnapshot } = useApp();
@@ -31,6 +32,12 @@ const PayrollSettingsPage: React.FC = () => {
     updateSettings({ payroll_settings: { ...settings.payroll_settings, ...patch } });
   };
 
+  const updateSemimonthlyDay = (index: number, value: string) => {
+    const next = [...(settings.payroll_settings.semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS)] as SemimonthlyDays;
+    next[index] = value.trim().toLowerCase();
+    updatePayrollSettings({ semimonthly_days: next });
+  };
+
   const update401k = (patch: Partial<PayrollSettings['401k']>) => {
     updatePayrollSettings({ '401k': { ...settings.payroll_settings['401k'], ...patch } });
   };
@@ -87,6 +94,10 @@ const PayrollSettingsPage: React.FC = () => {
         monthId: previewMonthId,
         schedule: settings.payroll_settings.pay_cycle,
         anchorDate,
+        businessDays: {
+          roll: settings.payroll_settings.pay_date_roll || 'none',
+          isHoliday: createHolidayLookup(settings.holiday_calendar)
+        },
         payrollSettings: settings.payroll_settings,
         taxTables: table
       });
@@ -94,7 +105,7 @@ const PayrollSettingsPage: React.FC = () => {
     };
     loadPreview();
     return () => { isActive = false; };
-  }, [selectedTaxTableYear, previewMonthId, currentSnapshot?.month_setup?.paycheck_anchor_date, settings.payroll_settings]);
+  }, [selectedTaxTableYear, previewMonthId, currentSnapshot?.month_setup?.paycheck_anchor_date, settings.payroll_settings, settings.holiday_calendar]);
 
   const formatCurrency = (value: number) => new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -127,6 +138,34 @@ const PayrollSettingsPage: React.FC = () => {
               <option value="monthly">Monthly</option>
             </select>
           </div>
+          {settings.payroll_settings.pay_cycle === 'semimonthly' && (
+            <div className="space-y-1">
+              <label className="text-xs font-bold text-slate-500 uppercase">Pay Days (day or "last")</label>
+              <div className="flex gap-2">
+                {(settings.payroll_settings.semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS).map((day, index) => (
+                  <input
+                    key={index}
+                    type="text"
+                    value={day}
+                    onChange={(e) => updateSemimonthlyDay(index, e.target.value)}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="space-y-1">
+            <label className="text-xs font-bold text-slate-500 uppercase">Weekend / Holiday Pay Dates</label>
+            <select
+              value={settings.payroll_settings.pay_date_roll || 'none'}
+              onChange={(e) => updatePayrollSettings({ pay_date_roll: e.target.value as BusinessDayRoll })}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              <option value="none">Keep scheduled date</option>
+              <option value="previous">Previous business day</option>
+              <option value="next">Next business day</option>
+            </select>
+          </div>
           <div className="space-y-1">
             <label className="text-xs font-bold text-slate-500 uppercase">Paycheck Anchor Date</label>
             <input
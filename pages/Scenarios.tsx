@@ -0,0 +1,370 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../App';
+import { Scenario, ScenarioRecurringOverride, Transaction, TransactionOverrideField } from '../types';
+import { calculateForecast, getForecastSummary } from '../lib/forecasting';
+import { applyScenario, createScenario, getRecurringItemId } from '../lib/scenarios';
+import { formatMonthLabel } from '../lib/format';
+import { Button } from '../components/Button';
+
+const ScenariosPage: React.FC = () => {
+  const { currentSnapshot, setSnapshot, saveCurrentSnapshot, settings } = useApp();
+  const [selectedScenarioId, setSelectedScenarioId] = useState<string>('');
+
+  const scenarios = currentSnapshot?.scenarios || [];
+  const scenario = scenarios.find(item => item.id === selectedScenarioId) || scenarios[0];
+
+  const comparison = useMemo(() => {
+    if (!currentSnapshot || !scenario) return null;
+    const baseline = getForecastSummary(calculateForecast(currentSnapshot, settings));
+    const whatIf = getForecastSummary(calculateForecast(applyScenario(currentSnapshot, scenario), settings));
+    return { baseline, whatIf };
+  }, [currentSnapshot, scenario, settings]);
+
+  if (!currentSnapshot) return null;
+
+  const sortedAccounts = [...currentSnapshot.accounts].sort((a, b) => a.name.localeCompare(b.name));
+  const sortedCategories = [...currentSnapshot.categories].sort((a, b) => a.name.localeCompare(b.name));
+  const sortedTransactions = [...currentSnapshot.transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const recurringItemIds = Array.from(new Set<string>(
+    currentSnapshot.transactions.map(getRecurringItemId).filter((id): id is string => Boolean(id))
+  ));
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: settings.preferred_currency,
+  }).format(val);
+
+  const updateScenarios = (next: Scenario[]) => {
+    setSnapshot({ ...currentSnapshot, scenarios: next });
+  };
+
+  const updateScenario = (patch: Partial<Scenario>) => {
+    if (!scenario) return;
+    updateScenarios(scenarios.map(item => (item.id === scenario.id ? { ...item, ...patch, updated_at: Date.now() } : item)));
+  };
+
+  const handleAddScenario = () => {
+    const next = createScenario(`Scenario ${scenarios.length + 1}`);
+    updateScenarios([...scenarios, next]);
+    setSelectedScenarioId(next.id);
+  };
+
+  const handleDeleteScenario = () => {
+    if (!scenario || !confirm(`Delete scenario "${scenario.name}"?`)) return;
+    updateScenarios(scenarios.filter(item => item.id !== scenario.id));
+    setSelectedScenarioId('');
+  };
+
+  const handleAddTransaction = () => {
+    if (!scenario) return;
+    const now = Date.now();
+    const tx: Transaction = {
+      id: crypto.randomUUID(),
+      date: `${currentSnapshot.id}-01`,
+      amount: 0,
+      account_id: sortedAccounts[0]?.id || '',
+      transaction_type: 'expense',
+      category_id: sortedCategories.find(cat => cat.type === 'expense')?.id || sortedCategories[0]?.id || '',
+      description: '',
+      created_at: now,
+      updated_at: now,
+      source: 'manual'
+    };
+    updateScenario({ added_transactions: [...scenario.added_transactions, tx] });
+  };
+
+  const updateAddedTransaction = (id: string, patch: Partial<Transaction>) => {
+    if (!scenario) return;
+    updateScenario({
+      added_transactions: scenario.added_transactions.map(tx => {
+        if (tx.id !== id) return tx;
+        const next = { ...tx, ...patch, updated_at: Date.now() };
+        return { ...next, transaction_type: next.amount >= 0 ? 'income' : 'expense' };
+      })
+    });
+  };
+
+  const removeAddedTransaction = (id: string) => {
+    if (!scenario) return;
+    updateScenario({ added_transactions: scenario.added_transactions.filter(tx => tx.id !== id) });
+  };
+
+  const toggleRemoved = (id: string, included: boolean) => {
+    if (!scenario) return;
+    const others = scenario.removed_transaction_ids.filter(txId => txId !== id);
+    updateScenario({ removed_transaction_ids: included ? others : [...others, id] });
+  };
+
+  // Only fields that differ from the real transaction are stored, so later edits to the month still show through
+  const updateTransactionChange = (tx: Transaction, field: TransactionOverrideField, value: string | number) => {
+    if (!scenario) return;
+    const existing = scenario.modified_transactions.find(change => change.transaction_id === tx.id)?.changes || {};
+    const changes = { ...existing, [field]: value };
+    if (tx[field] === value) delete changes[field];
+    const others = scenario.modified_transactions.filter(change => change.transaction_id !== tx.id);
+    updateScenario({
+      modified_transactions: Object.keys(changes).length ? [...others, { transaction_id: tx.id, changes }] : others
+    });
+  };
+
+  const updateRecurringOverride = (itemId: string, patch: Partial<ScenarioRecurringOverride>) => {
+    if (!scenario) return;
+    const existing = scenario.recurring_overrides.find(override => override.item_id === itemId) || { item_id: itemId };
+    const next = { ...existing, ...patch };
+    const others = scenario.recurring_overrides.filter(override => override.item_id !== itemId);
+    const isEmpty = typeof next.amount !== 'number' && !next.skip;
+    updateScenario({ recurring_overrides: isEmpty ? others : [...others, next] });
+  };
+
+  const renderDelta = (baseline: number, whatIf: number) => {
+    const delta = whatIf - baseline;
+    if (Math.abs(delta) < 0.005) return <span className="text-slate-400">No change</span>;
+    return (
+      <span className={delta > 0 ? 'text-green-600' : 'text-red-600'}>
+        {delta > 0 ? '+' : ''}{formatCurrency(delta)}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pb-20">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-3xl font-extrabold text-slate-900">Scenarios</h2>
+          <p className="text-slate-500">What-if changes for {formatMonthLabel(currentSnapshot.id)}; the month itself is left untouched</p>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={handleAddScenario} variant="primary">New Scenario</Button>
+          <Button onClick={saveCurrentSnapshot} variant="success">Save Changes</Button>
+        </div>
+      </div>
+
+      {!scenario && (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 text-sm text-slate-400 italic">
+          No scenarios for this month yet.
+        </div>
+      )}
+
+      {scenario && comparison && (
+        <>
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {scenarios.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  onClick={() => setSelectedScenarioId(item.id)}
+                  className={`px-3 py-1 rounded-full border text-xs font-semibold ${
+                    item.id === scenario.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-slate-200'
+                  }`}
+                >
+                  {item.name || 'Untitled'}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-col md:flex-row gap-2 md:items-center">
+              <input
+                type="text"
+                value={scenario.name}
+                placeholder="Scenario name"
+                onChange={(e) => updateScenario({ name: e.target.value })}
+                className="flex-1 px-3 py-2 border rounded-lg"
+              />
+              <Button onClick={handleDeleteScenario} variant="dangerGhost" size="sm">Delete Scenario</Button>
+            </div>
+            <table className="w-full text-left text-sm">
+              <thead className="text-xs font-bold text-slate-500 uppercase">
+                <tr>
+                  <th className="px-4 py-2"></th>
+                  <th className="px-4 py-2 text-right">Baseline</th>
+                  <th className="px-4 py-2 text-right">Scenario</th>
+                  <th className="px-4 py-2 text-right">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                <tr>
+                  <td className="px-4 py-2 font-semibold text-slate-700">End Balance</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(comparison.baseline.projected_end_balance)}</td>
+                  <td className="px-4 py-2 text-right">{formatCurrency(comparison.whatIf.projected_end_balance)}</td>
+                  <td className="px-4 py-2 text-right font-bold">
+                    {renderDelta(comparison.baseline.projected_end_balance, comparison.whatIf.projected_end_balance)}
+                  </td>
+                </tr>
+                <tr>
+                  <td className="px-4 py-2 font-semibold text-slate-700">Lowest Balance</td>
+                  <td className="px-4 py-2 text-right">
+                    {formatCurrency(comparison.baseline.lowest_projected_balance)}
+                    <span className="block text-xs text-slate-400">{comparison.baseline.lowest_balance_date}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {formatCurrency(comparison.whatIf.lowest_projected_balance)}
+                    <span className="block text-xs text-slate-400">{comparison.whatIf.lowest_balance_date}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right font-bold">
+                    {renderDelta(comparison.baseline.lowest_projected_balance, comparison.whatIf.lowest_projected_balance)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="text-xs text-slate-500">Compare the full curve on the Dashboard by picking this scenario under Compare.</p>
+          </div>
+
+          <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-bold text-slate-800">Added Transactions</h3>
+              <Button onClick={handleAddTransaction} variant="secondary" size="sm">Add Transaction</Button>
+            </div>
+            <p className="text-xs text-slate-500">Positive amounts are inflows, negative amounts are outflows.</p>
+            <div className="space-y-2">
+              {scenario.added_transactions.map(tx => (
+                <div key={tx.id} className="flex flex-col md:flex-row gap-2 md:items-center">
+                  <input
+                    type="date"
+                    value={tx.date}
+                    min={`${currentSnapshot.id}-01`}
+                    onChange={(e) => updateAddedTransaction(tx.id, { date: e.target.value })}
+                    className="px-3 py-2 border rounded-lg"
+                  />
+                  <input
+                    type="text"
+                    value={tx.description}
+                    placeholder="Description"
+                    onChange={(e) => updateAddedTransaction(tx.id, { description: e.target.value })}
+                    className="flex-1 px-3 py-2 border rounded-lg"
+                  />
+                  <select
+                    value={tx.account_id}
+                    onChange={(e) => updateAddedTransaction(tx.id, { account_id: e.target.value })}
+                    className="px-3 py-2 border rounded-lg"
+                  >
+                    {sortedAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                  </select>
+                  <select
+                    value={tx.category_id}
+                    onChange={(e) => updateAddedTransaction(tx.id, { category_id: e.target.value })}
+                    className="px-3 py-2 border rounded-lg"
+                  >
+                    {sortedCategories.map(cat => <option key={cat.id} value={cat.id}>{cat.name}</option>)}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={tx.amount}
+                    onChange={(e) => updateAddedTransaction(tx.id, { amount: Number(e.target.value) || 0 })}
+                    className="w-32 px-3 py-2 border rounded-lg"
+                  />
+                  <Button onClick={() => removeAddedTransaction(tx.id)} variant="danger" size="sm">Remove</Button>
+                </div>
+              ))}
+              {scenario.added_transactions.length === 0 && (
+                <p className="text-sm text-slate-400 italic">Nothing added.</p>
+              )}
+            </div>
+          </div>
+
+          {recurringItemIds.length > 0 && (
+            <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-4">
+              <h3 className="text-lg font-bold text-slate-800">Recurring Items This Month</h3>
+              <p className="text-xs text-slate-500">Overrides also apply to later months in the dashboard forecast.</p>
+              <div className="space-y-2">
+                {recurringItemIds.map(itemId => {
+                  const item = settings.recurring_items.find(entry => entry.id === itemId);
+                  const override = scenario.recurring_overrides.find(entry => entry.item_id === itemId);
+                  return (
+                    <div key={itemId} className="flex flex-col md:flex-row gap-2 md:items-center">
+                      <span className="flex-1 text-sm font-semibold text-slate-700">{item?.name || 'Removed recurring item'}</span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        value={override?.amount ?? ''}
+                        placeholder={item ? String(item.default_amount) : 'Amount'}
+                        disabled={override?.skip}
+                        onChange={(e) => updateRecurringOverride(itemId, {
+                          amount: e.target.value === '' ? undefined : Number(e.target.value)
+                        })}
+                        className="w-32 px-3 py-2 border rounded-lg"
+                      />
+                      <label className="flex items-center gap-2 text-sm text-slate-600">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(override?.skip)}
+                          onChange={(e) => updateRecurringOverride(itemId, { skip: e.target.checked || undefined })}
+                          className="w-4 h-4 rounded text-blue-600"
+                        />
+                        Skip every occurrence
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+            <div className="p-4 border-b border-slate-100">
+              <h3 className="text-lg font-bold text-slate-800">Month Transactions</h3>
+              <p className="text-xs text-slate-500">Untick to leave a transaction out, or change its date or amount for this scenario only.</p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="bg-slate-50 text-xs font-bold text-slate-500 uppercase">
+                  <tr>
+                    <th className="px-4 py-2">Include</th>
+                    <th className="px-4 py-2">Date</th>
+                    <th className="px-4 py-2">Description</th>
+                    <th className="px-4 py-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {sortedTransactions.map(tx => {
+                    const included = !scenario.removed_transaction_ids.includes(tx.id);
+                    const changes = scenario.modified_transactions.find(change => change.transaction_id === tx.id)?.changes || {};
+                    return (
+                      <tr key={tx.id} className={included ? '' : 'opacity-50'}>
+                        <td className="px-4 py-2">
+                          <input
+                            type="checkbox"
+                            checked={included}
+                            onChange={(e) => toggleRemoved(tx.id, e.target.checked)}
+                            className="w-4 h-4 rounded text-blue-600"
+                          />
+                        </td>
+                        <td className="px-4 py-2">
+                          <input
+                            type="date"
+                            value={changes.date ?? tx.date}
+                            disabled={!included}
+                            onChange={(e) => updateTransactionChange(tx, 'date', e.target.value)}
+                            className={`px-2 py-1 border rounded-lg ${changes.date ? 'border-blue-400' : ''}`}
+                          />
+                        </td>
+                        <td className="px-4 py-2 text-slate-700">{tx.description}</td>
+                        <td className="px-4 py-2 text-right">
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={changes.amount ?? tx.amount}
+                            disabled={!included}
+                            onChange={(e) => updateTransactionChange(tx, 'amount', Number(e.target.value) || 0)}
+                            className={`w-32 px-2 py-1 border rounded-lg text-right ${typeof changes.amount === 'number' ? 'border-blue-400' : ''}`}
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {sortedTransactions.length === 0 && (
+                    <tr>
+                      <td colSpan={4} className="px-4 py-6 text-center text-slate-400 italic">No transactions this month.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ScenariosPage;
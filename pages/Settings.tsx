@@ -3,8 +3,49 @@ import React, { useEffect, useState } from 'react';
 import { useApp } from '../App';
 import { storage } from '../lib/storage';
 import { getSupabase, syncMonth, syncSettings, syncTaxTables } from '../lib/supabase';
-import { Account, AccountType, Category, CategoryType, Loan, RecurringItem, RecurringItemType } from '../types';
+import {
+  Account,
+  AccountType,
+  AmountVariability,
+  BankImportAmountMode,
+  BankImportDateFormat,
+  BankImportProfile,
+  BudgetRollover,
+  Category,
+  CategoryType,
+  CreditCardPaymentPolicy,
+  CreditCardTerms,
+  CustomHoliday,
+  ExchangeRate,
+  HolidayCalendarSettings,
+  InterestPayout,
+  Loan,
+  RecurrenceRule,
+  RecurrenceWeekday,
+  RecurringAmountChange,
+  RecurringItem,
+  RecurringItemType,
+  SavingsGoal,
+  SweepRule
+} from '../types';
 import { Button } from '../components/Button';
+import { describeRecurrence, parseMonthDayList, WEEKDAY_LABELS } from '../lib/recurrence';
+import { getRecurringItemLifetimeSummary, getRecurringItemOccurrences } from '../lib/generate';
+import { buildGoalContributionItem, buildGoalProgress, loadGoalSnapshots } from '../lib/goals';
+import { DEFAULT_SEMIMONTHLY_DAYS } from '../src/lib/payroll/engine';
+import { BusinessDayRoll, SemimonthlyDays } from '../src/lib/payroll/types';
+import { getUsFederalHolidays } from '../src/lib/businessDays';
+import { MONTH_LABELS } from '../src/lib/month';
+import { normalizeVariability } from '../lib/simulation';
+import { findMissingRates, parseExchangeRateCsv } from '../lib/currency';
+import { createBankImportProfile } from '../lib/bankImport';
+
+const CURRENCY_OPTIONS = [
+  { code: 'USD', label: 'USD ($)' },
+  { code: 'EUR', label: 'EUR (€)' },
+  { code: 'GBP', label: 'GBP (£)' },
+  { code: 'JPY', label: 'JPY (¥)' }
+];
 
 const SettingsPage: React.FC = () => {
   const { settings, updateSettings, currentSnapshot, refreshSnapshot, saveSnapshot } = useApp();
@@ -13,6 +54,8 @@ const SettingsPage: React.FC = () => {
   const [authEmail, setAuthEmail] = useState<string>('');
   const [authPassword, setAuthPassword] = useState<string>('');
   const [editingAccount, setEditingAccount] = useState<Partial<Account> | null>(null);
+  const [rateImportText, setRateImportText] = useState<string>('');
+  const [rateImportStatus, setRateImportStatus] = useState<string>('');
   const [editingCategory, setEditingCategory] = useState<Partial<Category> | null>(null);
   const [editingLoan, setEditingLoan] = useState<Partial<Loan> | null>(null);
   const [editingRecurring, setEditingRecurring] = useState<RecurringItem | null>(null);
@@ -20,6 +63,12 @@ const SettingsPage: React.FC = () => {
   const [accountSortDir, setAccountSortDir] = useState<'asc' | 'desc'>('asc');
   const [recurringSortKey, setRecurringSortKey] = useState<'name' | 'cadence' | 'day_rule' | 'default_amount' | 'type' | 'account'>('name');
   const [recurringSortDir, setRecurringSortDir] = useState<'asc' | 'desc'>('asc');
+  const [monthDaysInput, setMonthDaysInput] = useState<string>('');
+
+  useEffect(() => {
+    const days = editingRecurring?.recurrence?.by_month_day || [];
+    setMonthDaysInput(days.map(day => (day === -1 ? 'last' : String(day))).join(', '));
+  }, [editingRecurring?.id]);
 
   const refreshAuthStatus = async () => {
     const client = getSupabase(settings);
@@ -155,9 +204,34 @@ const SettingsPage: React.FC = () => {
     await refreshAuthStatus();
   };
 
+  const paymentAccounts = settings.accounts
+    .filter(acc => acc.type === 'checking' || acc.type === 'savings')
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const cardTerms: CreditCardTerms = editingAccount?.credit_card || {
+    statement_closing_day: 25,
+    payment_due_day: 20,
+    payment_policy: 'statement_balance',
+    payment_account_id: paymentAccounts.find(acc => acc.type === 'checking')?.id || paymentAccounts[0]?.id || ''
+  };
+
+  const updateCardTerms = (patch: Partial<CreditCardTerms>) => {
+    if (!editingAccount) return;
+    setEditingAccount({ ...editingAccount, credit_card: { ...cardTerms, ...patch } });
+  };
+
   const handleAccountSave = async () => {
     if (!editingAccount || !editingAccount.name) return;
     const acc = { ...editingAccount as Account, updated_at: Date.now() };
+    if (acc.type !== 'checking' && acc.type !== 'savings') {
+      delete acc.interest_apy;
+      delete acc.interest_payout;
+    }
+    if (acc.type === 'credit_card') {
+      acc.credit_card = cardTerms;
+      acc.included_in_cash_forecast = false;
+    } else {
+      delete acc.credit_card;
+    }
     const exists = settings.accounts.find(a => a.id === acc.id);
     const list = exists
       ? settings.accounts.map(a => a.id === acc.id ? acc : a)
@@ -171,8 +245,15 @@ const SettingsPage: React.FC = () => {
     await updateSettings({ accounts: settings.accounts.filter(a => a.id !== id) });
   };
 
+  const defaultAnchorDate = `${currentSnapshot?.id || new Date().toISOString().slice(0, 7)}-01`;
+
   const handleRecurringSave = async () => {
     if (!editingRecurring || !editingRecurring.name) return;
+    const rule = editingRecurring.cadence === 'custom' ? editingRecurring.recurrence : undefined;
+    if (rule && !editingRecurring.anchor_date && ((rule.interval || 1) > 1 || rule.frequency === 'yearly')) {
+      alert('Set an anchor date: intervals and yearly rules count from it.');
+      return;
+    }
     const updated = { ...editingRecurring, updated_at: Date.now() };
     const exists = settings.recurring_items.find(item => item.id === updated.id);
     const list = exists
@@ -182,8 +263,305 @@ const SettingsPage: React.FC = () => {
     setEditingRecurring(null);
   };
 
+  const handleRecurringCadenceChange = (cadence: RecurringItem['cadence']) => {
+    if (!editingRecurring) return;
+    const recurrence = cadence === 'custom'
+      ? (editingRecurring.recurrence || { frequency: 'monthly', interval: 1 })
+      : editingRecurring.recurrence;
+    const anchorDate = cadence === 'custom'
+      ? editingRecurring.anchor_date || editingRecurring.start_date || defaultAnchorDate
+      : editingRecurring.anchor_date;
+    setEditingRecurring({ ...editingRecurring, cadence, recurrence, anchor_date: anchorDate });
+  };
+
+  const holidayCalendar: HolidayCalendarSettings = settings.holiday_calendar || { us_federal_enabled: true, custom_holidays: [] };
+  const federalHolidays = getUsFederalHolidays(new Date().getFullYear());
+
+  const updateHolidayCalendar = (patch: Partial<HolidayCalendarSettings>) => {
+    updateSettings({ holiday_calendar: { ...holidayCalendar, ...patch } });
+  };
+
+  const handleAddCustomHoliday = () => {
+    updateHolidayCalendar({
+      custom_holidays: [
+        ...holidayCalendar.custom_holidays,
+        { id: crypto.randomUUID(), date: new Date().toISOString().slice(0, 10), name: '' }
+      ]
+    });
+  };
+
+  const updateCustomHoliday = (id: string, patch: Partial<CustomHoliday>) => {
+    updateHolidayCalendar({
+      custom_holidays: holidayCalendar.custom_holidays.map(holiday => (holiday.id === id ? { ...holiday, ...patch } : holiday))
+    });
+  };
+
+  const removeCustomHoliday = (id: string) => {
+    updateHolidayCalendar({ custom_holidays: holidayCalendar.custom_holidays.filter(holiday => holiday.id !== id) });
+  };
+
+  const sweepRules = settings.sweep_rules || [];
+
+  const handleAddSweepRule = () => {
+    const cash = settings.accounts.filter(acc => acc.type !== 'loan');
+    updateSettings({
+      sweep_rules: [
+        ...sweepRules,
+        {
+          id: crypto.randomUUID(),
+          name: 'Cover checking',
+          enabled: true,
+          target_account_id: cash.find(acc => acc.type === 'checking')?.id || cash[0]?.id || '',
+          source_account_id: cash.find(acc => acc.type === 'savings')?.id || cash[1]?.id || '',
+          threshold: 1000,
+          max_amount: 0,
+          increment: 100,
+          lead_days: 1
+        }
+      ]
+    });
+  };
+
+  const updateSweepRule = (id: string, patch: Partial<SweepRule>) => {
+    updateSettings({ sweep_rules: sweepRules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)) });
+  };
+
+  const removeSweepRule = (id: string) => {
+    updateSettings({ sweep_rules: sweepRules.filter(rule => rule.id !== id) });
+  };
+
+  const savingsGoals = settings.savings_goals || [];
+  const goalAccounts = settings.accounts
+    .filter(acc => acc.type === 'checking' || acc.type === 'savings')
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleAddGoal = () => {
+    const now = Date.now();
+    const targetDate = new Date();
+    targetDate.setFullYear(targetDate.getFullYear() + 1);
+    updateSettings({
+      savings_goals: [
+        ...savingsGoals,
+        {
+          id: crypto.randomUUID(),
+          name: 'New goal',
+          target_amount: 1000,
+          target_date: targetDate.toISOString().slice(0, 10),
+          account_id: goalAccounts.find(acc => acc.type === 'savings')?.id || goalAccounts[0]?.id || '',
+          created_at: now,
+          updated_at: now
+        }
+      ]
+    });
+  };
+
+  const updateGoal = (id: string, patch: Partial<SavingsGoal>) => {
+    updateSettings({
+      savings_goals: savingsGoals.map(goal => (goal.id === id ? { ...goal, ...patch, updated_at: Date.now() } : goal))
+    });
+  };
+
+  // The auto-contribution goes with the goal; tagged transactions already in months keep their goal id
+  const removeGoal = (goal: SavingsGoal) => {
+    if (!confirm(`Delete the goal "${goal.name}"${goal.recurring_item_id ? ' and its auto-contribution' : ''}?`)) return;
+    updateSettings({
+      savings_goals: savingsGoals.filter(item => item.id !== goal.id),
+      recurring_items: settings.recurring_items
+        .filter(item => item.id !== goal.recurring_item_id)
+        .map(item => (item.goal_id === goal.id ? { ...item, goal_id: undefined } : item))
+    });
+  };
+
+  // Spreads what is still missing over the transfers left before the target date
+  const handleCreateGoalContribution = async (goal: SavingsGoal) => {
+    const from = goalAccounts.find(acc => acc.type === 'checking' && acc.id !== goal.account_id)
+      || goalAccounts.find(acc => acc.id !== goal.account_id);
+    const category = settings.categories.find(cat => cat.type === 'transfer');
+    if (!from || !category) {
+      alert('Add a second checking or savings account and a transfer category first.');
+      return;
+    }
+    const today = new Date().toISOString().slice(0, 10);
+    const progress = buildGoalProgress(goal, await loadGoalSnapshots(currentSnapshot), today, settings);
+    const draft = buildGoalContributionItem(goal, from.id, category.id, 0, today);
+    const occurrences = getRecurringItemOccurrences(draft, goal.target_date).filter(date => date >= today).length;
+    const item = { ...draft, default_amount: Math.round((progress.remaining / Math.max(1, occurrences)) * 100) / 100 };
+    await updateSettings({
+      recurring_items: [...settings.recurring_items, item],
+      savings_goals: savingsGoals.map(entry =>
+        entry.id === goal.id ? { ...entry, recurring_item_id: item.id, updated_at: Date.now() } : entry
+      )
+    });
+  };
+
+  const handleStopGoalContribution = (goal: SavingsGoal) => {
+    updateSettings({
+      recurring_items: settings.recurring_items.filter(item => item.id !== goal.recurring_item_id),
+      savings_goals: savingsGoals.map(entry =>
+        entry.id === goal.id ? { ...entry, recurring_item_id: undefined, updated_at: Date.now() } : entry
+      )
+    });
+  };
+
+  const importProfiles = settings.bank_import_profiles || [];
+
+  const handleAddImportProfile = () => {
+    updateSettings({ bank_import_profiles: [...importProfiles, createBankImportProfile()] });
+  };
+
+  const updateImportProfile = (id: string, patch: Partial<BankImportProfile>) => {
+    updateSettings({
+      bank_import_profiles: importProfiles.map(profile => (profile.id === id ? { ...profile, ...patch, updated_at: Date.now() } : profile))
+    });
+  };
+
+  const removeImportProfile = (id: string) => {
+    updateSettings({ bank_import_profiles: importProfiles.filter(profile => profile.id !== id) });
+  };
+
+  const exchangeRates = settings.exchange_rates || [];
+  const sortedExchangeRates = [...exchangeRates].sort((a, b) =>
+    `${a.base_currency}${a.quote_currency}${a.effective_date}`.localeCompare(`${b.base_currency}${b.quote_currency}${b.effective_date}`)
+  );
+  const missingRateCurrencies = findMissingRates(
+    settings.accounts,
+    settings.preferred_currency,
+    exchangeRates,
+    new Date().toISOString().slice(0, 10)
+  );
+
+  const handleAddExchangeRate = () => {
+    const foreign = settings.accounts.find(acc => acc.currency && acc.currency !== settings.preferred_currency)?.currency;
+    updateSettings({
+      exchange_rates: [
+        ...exchangeRates,
+        {
+          id: crypto.randomUUID(),
+          base_currency: foreign || CURRENCY_OPTIONS.find(option => option.code !== settings.preferred_currency)?.code || 'EUR',
+          quote_currency: settings.preferred_currency,
+          rate: 1,
+          effective_date: new Date().toISOString().slice(0, 10)
+        }
+      ]
+    });
+  };
+
+  const updateExchangeRate = (id: string, patch: Partial<ExchangeRate>) => {
+    updateSettings({ exchange_rates: exchangeRates.map(rate => (rate.id === id ? { ...rate, ...patch } : rate)) });
+  };
+
+  const removeExchangeRate = (id: string) => {
+    updateSettings({ exchange_rates: exchangeRates.filter(rate => rate.id !== id) });
+  };
+
+  // Imported rows replace any existing rate for the same pair and date
+  const handleImportExchangeRates = async (rawOverride?: string) => {
+    const raw = (typeof rawOverride === 'string' ? rawOverride : rateImportText).trim();
+    if (!raw) {
+      setRateImportStatus('Paste rate rows first.');
+      return;
+    }
+    const { rates, skipped } = parseExchangeRateCsv(raw);
+    if (!rates.length) {
+      setRateImportStatus('No rates found. Use rows of date,base,quote,rate.');
+      return;
+    }
+    const keyOf = (rate: ExchangeRate) => `${rate.base_currency}:${rate.quote_currency}:${rate.effective_date}`;
+    const importedKeys = new Set<string>(rates.map(keyOf));
+    await updateSettings({ exchange_rates: [...exchangeRates.filter(rate => !importedKeys.has(keyOf(rate))), ...rates] });
+    setRateImportText('');
+    setRateImportStatus(`Imported ${rates.length} rate${rates.length === 1 ? '' : 's'}${skipped ? `, skipped ${skipped} unreadable row${skipped === 1 ? '' : 's'}` : ''}.`);
+  };
+
+  const handleImportExchangeRateFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = async (ev) => {
+      await handleImportExchangeRates(String(ev.target?.result || ''));
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const updateRecurringVariability = (field: keyof AmountVariability, value: string) => {
+    if (!editingRecurring) return;
+    const variability = normalizeVariability({
+      ...editingRecurring.variability,
+      [field]: value === '' ? undefined : Number(value)
+    });
+    setEditingRecurring({ ...editingRecurring, variability });
+  };
+
+  const updateSemimonthlyDay = (index: number, value: string) => {
+    if (!editingRecurring) return;
+    const next = [...(editingRecurring.semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS)] as SemimonthlyDays;
+    next[index] = value.trim().toLowerCase();
+    setEditingRecurring({ ...editingRecurring, semimonthly_days: next });
+  };
+
+  const formatDayRule = (item: RecurringItem) => {
+    if (item.cadence === 'custom' && item.recurrence) return describeRecurrence(item.recurrence);
+    if (item.cadence === 'semimonthly') return (item.semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS).join(' & ');
+    return item.day_rule;
+  };
+
+  const updateRecurrence = (patch: Partial<RecurrenceRule>) => {
+    if (!editingRecurring) return;
+    const current: RecurrenceRule = editingRecurring.recurrence || { frequency: 'monthly', interval: 1 };
+    setEditingRecurring({ ...editingRecurring, recurrence: { ...current, ...patch } });
+  };
+
+  const toggleRecurrenceMonth = (month: number) => {
+    const months = editingRecurring?.recurrence?.by_month || [];
+    const next = months.includes(month) ? months.filter(m => m !== month) : [...months, month].sort((a, b) => a - b);
+    updateRecurrence({ by_month: next });
+  };
+
+  const commitMonthDays = () => {
+    const days = parseMonthDayList(monthDaysInput);
+    updateRecurrence({ by_month_day: days });
+    setMonthDaysInput(days.map(day => (day === -1 ? 'last' : String(day))).join(', '));
+  };
+
+  const updateRecurrenceWeekday = (index: number, patch: Partial<RecurrenceWeekday>) => {
+    const weekdays = editingRecurring?.recurrence?.by_weekday || [];
+    updateRecurrence({ by_weekday: weekdays.map((entry, i) => i === index ? { ...entry, ...patch } : entry) });
+  };
+
+  const handleAddAmountChange = () => {
+    if (!editingRecurring) return;
+    const change: RecurringAmountChange = {
+      id: crypto.randomUUID(),
+      effective_date: `${currentSnapshot?.id || new Date().toISOString().slice(0, 7)}-01`,
+      amount: editingRecurring.default_amount
+    };
+    setEditingRecurring({ ...editingRecurring, amount_schedule: [...(editingRecurring.amount_schedule || []), change] });
+  };
+
+  const updateAmountChange = (id: string, patch: Partial<RecurringAmountChange>) => {
+    if (!editingRecurring) return;
+    setEditingRecurring({
+      ...editingRecurring,
+      amount_schedule: (editingRecurring.amount_schedule || []).map(entry => entry.id === id ? { ...entry, ...patch } : entry)
+    });
+  };
+
+  const removeAmountChange = (id: string) => {
+    if (!editingRecurring) return;
+    setEditingRecurring({
+      ...editingRecurring,
+      amount_schedule: (editingRecurring.amount_schedule || []).filter(entry => entry.id !== id)
+    });
+  };
+
   const handleRecurringDelete = async (id: string) => {
-    await updateSettings({ recurring_items: settings.recurring_items.filter(item => item.id !== id) });
+    await updateSettings({
+      recurring_items: settings.recurring_items.filter(item => item.id !== id),
+      savings_goals: (settings.savings_goals || []).map(goal =>
+        goal.recurring_item_id === id ? { ...goal, recurring_item_id: undefined, updated_at: Date.now() } : goal
+      )
+    });
     if (currentSnapshot?.month_setup) {
       const filtered = currentSnapshot.month_setup.variable_overrides.filter(o => o.item_id !== id);
       const updatedSnapshot = { ...currentSnapshot, month_setup: { ...currentSnapshot.month_setup, variable_overrides: filtered }, updated_at: Date.now(), schema_version: 6 };
@@ -195,6 +573,11 @@ const SettingsPage: React.FC = () => {
   const handleCategorySave = async () => {
     if (!editingCategory || !editingCategory.name) return;
     const cat = { ...editingCategory as Category, updated_at: Date.now() };
+    // Budgets only apply to expense categories
+    if (cat.type !== 'expense' || !cat.budget_amount) {
+      delete cat.budget_amount;
+      delete cat.budget_rollover;
+    }
     const exists = settings.categories.find(c => c.id === cat.id);
     const list = exists
       ? settings.categories.map(c => c.id === cat.id ? cat : c)
@@ -217,6 +600,7 @@ const SettingsPage: React.FC = () => {
       current_balance: Number(editingLoan.current_balance) || 0,
       interest_rate: Number(editingLoan.interest_rate) || 0,
       maturity_date: editingLoan.maturity_date || '',
+      account_id: editingLoan.account_id || undefined,
       payment_history: editingLoan.payment_history || [],
       updated_at: Date.now()
     };
@@ -307,6 +691,14 @@ const SettingsPage: React.FC = () => {
     }
   };
 
+  const today = new Date().toISOString().slice(0, 10);
+  const formatLifetime = (item: RecurringItem) => {
+    const summary = getRecurringItemLifetimeSummary(item, today);
+    if (summary.remaining === null) return 'Ongoing';
+    if (!summary.final_date || summary.remaining === 0) return 'Finished';
+    return `${summary.remaining} left · last ${summary.final_date}`;
+  };
+
   return (
     <div className="space-y-8 max-w-7xl mx-auto pb-20">
       <div>
@@ -429,10 +821,9 @@ CREATE TABLE IF NOT EXISTS tax_tables (
               onChange={(e) => updateSettings({ preferred_currency: e.target.value })}
               className="w-full px-3 py-2 border rounded-lg bg-slate-50"
             >
-              <option value="USD">USD ($)</option>
-              <option value="EUR">EUR (€)</option>
-              <option value="GBP">GBP (£)</option>
-              <option value="JPY">JPY (¥)</option>
+              {CURRENCY_OPTIONS.map(option => (
+                <option key={option.code} value={option.code}>{option.label}</option>
+              ))}
             </select>
           </div>
           <div className="flex items-center space-x-2 pt-6">
@@ -448,6 +839,54 @@ CREATE TABLE IF NOT EXISTS tax_tables (
         </div>
       </section>
 
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Holiday Calendar</h3>
+          <Button onClick={handleAddCustomHoliday} variant="primary">Add Holiday</Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          Used when a pay schedule or recurring item rolls weekend and holiday dates to a business day.
+        </p>
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="us_federal_holidays"
+            checked={holidayCalendar.us_federal_enabled}
+            onChange={(e) => updateHolidayCalendar({ us_federal_enabled: e.target.checked })}
+            className="w-4 h-4 rounded text-blue-600"
+          />
+          <label htmlFor="us_federal_holidays" className="text-sm font-medium text-slate-700">US federal bank holidays</label>
+        </div>
+        {holidayCalendar.us_federal_enabled && (
+          <p className="text-xs text-slate-500">
+            {federalHolidays.map(holiday => `${holiday.name} (${holiday.date.slice(5)})`).join(' · ')}
+          </p>
+        )}
+        <div className="space-y-2">
+          {holidayCalendar.custom_holidays.map(holiday => (
+            <div key={holiday.id} className="flex flex-col md:flex-row gap-2 md:items-center">
+              <input
+                type="date"
+                value={holiday.date}
+                onChange={(e) => updateCustomHoliday(holiday.id, { date: e.target.value })}
+                className="px-3 py-2 border rounded-lg"
+              />
+              <input
+                type="text"
+                value={holiday.name}
+                placeholder="Holiday name"
+                onChange={(e) => updateCustomHoliday(holiday.id, { name: e.target.value })}
+                className="flex-1 px-3 py-2 border rounded-lg"
+              />
+              <Button onClick={() => removeCustomHoliday(holiday.id)} variant="danger" size="sm">Remove</Button>
+            </div>
+          ))}
+          {holidayCalendar.custom_holidays.length === 0 && (
+            <p className="text-sm text-slate-400 italic">No custom holidays.</p>
+          )}
+        </div>
+      </section>
+
       <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
         <div className="flex justify-between items-center">
           <h3 className="text-lg font-bold text-slate-800">Accounts (Global)</h3>
@@ -496,6 +935,9 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                     In Forecast?{getAccountSortIndicator('included_in_cash_forecast')}
                   </button>
                 </th>
+                <th className="px-4 py-2 font-bold">Currency</th>
+                <th className="px-4 py-2 font-bold">Minimum</th>
+                <th className="px-4 py-2 font-bold">APY</th>
                 <th className="px-4 py-2 font-bold text-right">Actions</th>
               </tr>
             </thead>
@@ -503,8 +945,13 @@ CREATE TABLE IF NOT EXISTS tax_tables (
               {sortedAccounts.map(acc => (
                 <tr key={acc.id} className="hover:bg-slate-50 transition">
                   <td className="px-4 py-2 font-semibold text-slate-800">{acc.name}</td>
-                  <td className="px-4 py-2 capitalize">{acc.type}</td>
+                  <td className="px-4 py-2 capitalize">{acc.type.replace('_', ' ')}</td>
                   <td className="px-4 py-2">{acc.included_in_cash_forecast ? 'Yes' : 'No'}</td>
+                  <td className="px-4 py-2">{acc.currency || settings.preferred_currency}</td>
+                  <td className="px-4 py-2">{typeof acc.minimum_balance === 'number' ? acc.minimum_balance.toFixed(2) : '-'}</td>
+                  <td className="px-4 py-2">
+                    {acc.interest_apy ? `${acc.interest_apy}% (${acc.interest_payout || 'monthly'})` : '-'}
+                  </td>
                   <td className="px-4 py-2 text-right space-x-2">
                     <Button onClick={() => setEditingAccount(acc)} variant="secondary" size="sm">Edit</Button>
                     <Button onClick={() => handleAccountDelete(acc.id)} variant="danger" size="sm">Delete</Button>
@@ -513,7 +960,7 @@ CREATE TABLE IF NOT EXISTS tax_tables (
               ))}
               {settings.accounts.length === 0 && (
                 <tr>
-                  <td colSpan={4} className="px-4 py-6 text-center text-slate-400 italic">
+                  <td colSpan={7} className="px-4 py-6 text-center text-slate-400 italic">
                     No accounts yet. Add one to get started.
                   </td>
                 </tr>
@@ -523,6 +970,494 @@ CREATE TABLE IF NOT EXISTS tax_tables (
         </div>
       </section>
 
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Sweep Rules</h3>
+          <Button onClick={handleAddSweepRule} variant="primary">Add Rule</Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          When the forecast would take an account below its threshold, pull money from another account to refill it.
+          Sweeps shape the dashboard forecast; add them to a month from Forecast Detail to keep them as transactions.
+        </p>
+        <div className="space-y-3">
+          {sweepRules.map(rule => (
+            <div key={rule.id} className="border border-slate-200 rounded-lg p-4 space-y-3">
+              <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateSweepRule(rule.id, { enabled: e.target.checked })}
+                  className="w-4 h-4 rounded text-blue-600"
+                />
+                <input
+                  type="text"
+                  value={rule.name}
+                  placeholder="Rule name"
+                  onChange={(e) => updateSweepRule(rule.id, { name: e.target.value })}
+                  className="flex-1 px-3 py-2 border rounded-lg"
+                />
+                <Button onClick={() => removeSweepRule(rule.id)} variant="danger" size="sm">Remove</Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Keep Account</label>
+                  <select
+                    value={rule.target_account_id}
+                    onChange={(e) => updateSweepRule(rule.id, { target_account_id: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    {cashAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Above</label>
+                  <input
+                    type="number"
+                    value={rule.threshold}
+                    onChange={(e) => updateSweepRule(rule.id, { threshold: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Refill To</label>
+                  <input
+                    type="number"
+                    value={rule.target_balance ?? ''}
+                    placeholder="Threshold"
+                    onChange={(e) => updateSweepRule(rule.id, {
+                      target_balance: e.target.value === '' ? undefined : Number(e.target.value)
+                    })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Pull From</label>
+                  <select
+                    value={rule.source_account_id}
+                    onChange={(e) => updateSweepRule(rule.id, { source_account_id: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    {cashAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Up To (0 = No Cap)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={rule.max_amount}
+                    onChange={(e) => updateSweepRule(rule.id, { max_amount: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">In Increments Of</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={rule.increment}
+                    onChange={(e) => updateSweepRule(rule.id, { increment: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Days Before</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={rule.lead_days}
+                    onChange={(e) => updateSweepRule(rule.id, { lead_days: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Category</label>
+                  <select
+                    value={rule.category_id || ''}
+                    onChange={(e) => updateSweepRule(rule.id, { category_id: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">First transfer category</option>
+                    {sortedCategories.filter(cat => cat.type === 'transfer').map(cat => (
+                      <option key={cat.id} value={cat.id}>{cat.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {rule.target_account_id === rule.source_account_id && (
+                <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                  Choose two different accounts; this rule is skipped until then.
+                </p>
+              )}
+            </div>
+          ))}
+          {sweepRules.length === 0 && (
+            <p className="text-sm text-slate-400 italic">No sweep rules.</p>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Savings Goals</h3>
+          <Button onClick={handleAddGoal} variant="primary">Add Goal</Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          Progress counts transactions tagged with the goal. Tag transfers in Forecast Detail or on a recurring transfer;
+          an auto-contribution adds a tagged monthly transfer that appears once months are regenerated.
+        </p>
+        <div className="space-y-3">
+          {savingsGoals.map(goal => {
+            const contribution = settings.recurring_items.find(item => item.id === goal.recurring_item_id);
+            const contributionFrom = settings.accounts.find(acc => acc.id === contribution?.account_id)?.name;
+            return (
+              <div key={goal.id} className="border border-slate-200 rounded-lg p-4 space-y-3">
+                <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                  <input
+                    type="text"
+                    value={goal.name}
+                    onChange={(e) => updateGoal(goal.id, { name: e.target.value })}
+                    className="flex-1 px-3 py-2 border rounded-lg"
+                    placeholder="e.g. Car insurance"
+                  />
+                  <Button onClick={() => removeGoal(goal)} variant="danger" size="sm">Remove</Button>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Target Amount</label>
+                    <input
+                      type="number"
+                      value={goal.target_amount}
+                      onChange={(e) => updateGoal(goal.id, { target_amount: Math.max(0, Number(e.target.value) || 0) })}
+                      onKeyDown={handleAmountKeyDown}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Target Date</label>
+                    <input
+                      type="date"
+                      value={goal.target_date}
+                      onChange={(e) => updateGoal(goal.id, { target_date: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Held In</label>
+                    <select
+                      value={goal.account_id}
+                      onChange={(e) => updateGoal(goal.id, { account_id: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      <option value="">Select account</option>
+                      {goalAccounts.map(acc => (
+                        <option key={acc.id} value={acc.id}>{acc.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Already Saved</label>
+                    <input
+                      type="number"
+                      value={goal.starting_amount ?? ''}
+                      onChange={(e) => updateGoal(goal.id, {
+                        starting_amount: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value) || 0)
+                      })}
+                      onKeyDown={handleAmountKeyDown}
+                      className="w-full px-3 py-2 border rounded-lg"
+                      placeholder="0"
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  {contribution ? (
+                    <>
+                      <span className="text-slate-600">
+                        Auto-contribution: {contribution.default_amount.toFixed(2)} monthly from {contributionFrom || 'an unknown account'}
+                      </span>
+                      <Button onClick={() => handleStopGoalContribution(goal)} variant="secondary" size="sm">Stop</Button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="text-slate-400">No auto-contribution.</span>
+                      <Button
+                        onClick={() => handleCreateGoalContribution(goal)}
+                        variant="secondary"
+                        size="sm"
+                        disabled={!goal.account_id || !goal.target_date}
+                      >
+                        Create Auto-Contribution
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          {savingsGoals.length === 0 && (
+            <p className="text-sm text-slate-400 italic">No savings goals.</p>
+          )}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Exchange Rates</h3>
+          <Button onClick={handleAddExchangeRate} variant="primary">Add Rate</Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          One unit of the base currency buys the rate in the quote currency. A rate applies from its effective date until the next one for the pair.
+          Totals are converted to {settings.preferred_currency}; account balances stay in their own currency.
+        </p>
+        {missingRateCurrencies.length > 0 && (
+          <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+            No rate to {settings.preferred_currency} for {missingRateCurrencies.join(', ')}; those balances are added to totals unconverted.
+          </p>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 text-slate-500 text-xs uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-2 font-bold">Effective</th>
+                <th className="px-4 py-2 font-bold">Base</th>
+                <th className="px-4 py-2 font-bold">Quote</th>
+                <th className="px-4 py-2 font-bold">Rate</th>
+                <th className="px-4 py-2 font-bold text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {sortedExchangeRates.map(rate => (
+                <tr key={rate.id}>
+                  <td className="px-4 py-2">
+                    <input
+                      type="date"
+                      value={rate.effective_date}
+                      onChange={(e) => updateExchangeRate(rate.id, { effective_date: e.target.value })}
+                      className="px-3 py-2 border rounded-lg"
+                    />
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rate.base_currency}
+                      onChange={(e) => updateExchangeRate(rate.id, { base_currency: e.target.value })}
+                      className="px-3 py-2 border rounded-lg"
+                    >
+                      {CURRENCY_OPTIONS.map(option => (
+                        <option key={option.code} value={option.code}>{option.code}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <select
+                      value={rate.quote_currency}
+                      onChange={(e) => updateExchangeRate(rate.id, { quote_currency: e.target.value })}
+                      className="px-3 py-2 border rounded-lg"
+                    >
+                      {CURRENCY_OPTIONS.map(option => (
+                        <option key={option.code} value={option.code}>{option.code}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-4 py-2">
+                    <input
+                      type="number"
+                      step="0.0001"
+                      min="0"
+                      value={rate.rate}
+                      onChange={(e) => updateExchangeRate(rate.id, { rate: Math.max(0, Number(e.target.value) || 0) })}
+                      className="w-32 px-3 py-2 border rounded-lg"
+                    />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <Button onClick={() => removeExchangeRate(rate.id)} variant="danger" size="sm">Remove</Button>
+                  </td>
+                </tr>
+              ))}
+              {exchangeRates.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-slate-400 italic">
+                    No exchange rates.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-bold text-slate-500 uppercase">Paste CSV/TSV Rates</label>
+          <textarea
+            value={rateImportText}
+            onChange={(e) => setRateImportText(e.target.value)}
+            rows={4}
+            className="w-full px-3 py-2 border rounded-lg font-mono text-xs"
+            placeholder="date,base,quote,rate&#10;2024-01-01,EUR,USD,1.0950"
+          />
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Button onClick={() => handleImportExchangeRates()} variant="primary" type="button">
+            Import Rates
+          </Button>
+          <label className="px-3 py-2 bg-slate-100 text-slate-700 rounded-lg font-semibold hover:bg-slate-200 transition cursor-pointer">
+            Upload CSV
+            <input type="file" className="hidden" accept=".csv,.tsv,text/csv,text/tab-separated-values" onChange={handleImportExchangeRateFile} />
+          </label>
+          {rateImportStatus && <span className="text-xs text-slate-500">{rateImportStatus}</span>}
+        </div>
+      </section>
+
+      <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-bold text-slate-800">Bank Import Profiles</h3>
+          <Button onClick={handleAddImportProfile} variant="primary">Add Profile</Button>
+        </div>
+        <p className="text-xs text-slate-500">
+          How each bank's CSV export is read on the Forecast page. Columns are header names, or column numbers starting at 1.
+        </p>
+        <div className="space-y-3">
+          {importProfiles.map(profile => (
+            <div key={profile.id} className="border border-slate-200 rounded-lg p-4 space-y-3">
+              <div className="flex flex-col md:flex-row gap-2 md:items-center">
+                <input
+                  type="text"
+                  value={profile.name}
+                  onChange={(e) => updateImportProfile(profile.id, { name: e.target.value })}
+                  className="flex-1 px-3 py-2 border rounded-lg"
+                  placeholder="e.g. First National checking"
+                />
+                <Button onClick={() => removeImportProfile(profile.id)} variant="danger" size="sm">Remove</Button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Delimiter</label>
+                  <select
+                    value={profile.delimiter}
+                    onChange={(e) => updateImportProfile(profile.id, { delimiter: e.target.value as BankImportProfile['delimiter'] })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value=",">Comma</option>
+                    <option value=";">Semicolon</option>
+                    <option value={'\t'}>Tab</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Date Column</label>
+                  <input
+                    type="text"
+                    value={profile.date_column}
+                    onChange={(e) => updateImportProfile(profile.id, { date_column: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Date Format</label>
+                  <select
+                    value={profile.date_format}
+                    onChange={(e) => updateImportProfile(profile.id, { date_format: e.target.value as BankImportDateFormat })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                    <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                    <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+                    <option value="YYYYMMDD">YYYYMMDD</option>
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Description Column</label>
+                  <input
+                    type="text"
+                    value={profile.description_column}
+                    onChange={(e) => updateImportProfile(profile.id, { description_column: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Amounts</label>
+                  <select
+                    value={profile.amount_mode}
+                    onChange={(e) => updateImportProfile(profile.id, { amount_mode: e.target.value as BankImportAmountMode })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="signed">One column, negative = outflow</option>
+                    <option value="inverted">One column, positive = outflow</option>
+                    <option value="debit_credit">Debit and credit columns</option>
+                  </select>
+                </div>
+                {profile.amount_mode === 'debit_credit' ? (
+                  <>
+                    <div className="space-y-1">
+                      <label className="text-xs font-bold text-slate-500 uppercase">Debit Column</label>
+                      <input
+                        type="text"
+                        value={profile.debit_column || ''}
+                        onChange={(e) => updateImportProfile(profile.id, { debit_column: e.target.value })}
+                        className="w-full px-3 py-2 border rounded-lg"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs font-bold text-slate-500 uppercase">Credit Column</label>
+                      <input
+                        type="text"
+                        value={profile.credit_column || ''}
+                        onChange={(e) => updateImportProfile(profile.id, { credit_column: e.target.value })}
+                        className="w-full px-3 py-2 border rounded-lg"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Amount Column</label>
+                    <input
+                      type="text"
+                      value={profile.amount_column || ''}
+                      onChange={(e) => updateImportProfile(profile.id, { amount_column: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                )}
+                <label className="flex items-center gap-2 text-sm text-slate-700 md:pt-6">
+                  <input
+                    type="checkbox"
+                    checked={profile.has_header}
+                    onChange={(e) => updateImportProfile(profile.id, { has_header: e.target.checked })}
+                    className="w-4 h-4 rounded text-blue-600"
+                  />
+                  First row is a header
+                </label>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Default Account</label>
+                  <select
+                    value={profile.account_id || ''}
+                    onChange={(e) => updateImportProfile(profile.id, { account_id: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">None</option>
+                    {sortedAccounts.filter(acc => acc.type !== 'loan').map(acc => (
+                      <option key={acc.id} value={acc.id}>{acc.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Category for New Rows</label>
+                  <select
+                    value={profile.category_id || ''}
+                    onChange={(e) => updateImportProfile(profile.id, { category_id: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">None</option>
+                    {sortedCategories.map(cat => (
+                      <option key={cat.id} value={cat.id}>{cat.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+          ))}
+          {importProfiles.length === 0 && (
+            <p className="text-sm text-slate-400 italic">No bank import profiles.</p>
+          )}
+        </div>
+      </section>
+
       <section className="bg-white p-6 rounded-xl shadow-sm border border-slate-100 space-y-6">
         <div className="flex justify-between items-center">
           <h3 className="text-lg font-bold text-slate-800">Recurring Items (Defaults)</h3>
@@ -540,7 +1475,7 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                 day_rule: '1',
                 type: 'expense',
                 enabled: true,
-                anchor_date: `${currentSnapshot?.id || new Date().toISOString().slice(0, 7)}-01`,
+                anchor_date: defaultAnchorDate,
                 created_at: now,
                 updated_at: now
               });
@@ -608,6 +1543,7 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                     Type{getRecurringSortIndicator('type')}
                   </button>
                 </th>
+                <th className="px-4 py-2 font-bold">Lifetime</th>
                 <th className="px-4 py-2 font-bold text-right">Actions</th>
               </tr>
             </thead>
@@ -616,10 +1552,13 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                 <tr key={item.id} className="hover:bg-slate-50 transition">
                   <td className="px-4 py-2 font-semibold text-slate-800">{item.name}</td>
                   <td className="px-4 py-2 capitalize">{item.cadence}</td>
-                  <td className="px-4 py-2">{item.day_rule}</td>
+                  <td className="px-4 py-2">
+                    {formatDayRule(item)}
+                  </td>
                   <td className="px-4 py-2">{accountsById.get(item.account_id || '')?.name || '-'}</td>
                   <td className="px-4 py-2">{item.default_amount.toFixed(2)}</td>
                   <td className="px-4 py-2">{formatTypeLabel(item.type)}</td>
+                  <td className="px-4 py-2 text-xs text-slate-500">{formatLifetime(item)}</td>
                   <td className="px-4 py-2 text-right space-x-2">
                     <Button onClick={() => setEditingRecurring(item)} variant="secondary" size="sm">Edit</Button>
                     <Button onClick={() => handleRecurringDelete(item.id)} variant="danger" size="sm">Delete</Button>
@@ -628,7 +1567,7 @@ CREATE TABLE IF NOT EXISTS tax_tables (
               ))}
               {settings.recurring_items.length === 0 && (
                 <tr>
-                  <td colSpan={7} className="px-4 py-6 text-center text-slate-400 italic">
+                  <td colSpan={8} className="px-4 py-6 text-center text-slate-400 italic">
                     No recurring items yet. Add one to define defaults.
                   </td>
                 </tr>
@@ -660,6 +1599,7 @@ CREATE TABLE IF NOT EXISTS tax_tables (
               <tr>
                 <th className="px-4 py-2 font-bold">Category</th>
                 <th className="px-4 py-2 font-bold">Type</th>
+                <th className="px-4 py-2 font-bold text-right">Monthly Budget</th>
                 <th className="px-4 py-2 font-bold text-right">Actions</th>
               </tr>
             </thead>
@@ -668,6 +1608,18 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                 <tr key={cat.id} className="hover:bg-slate-50 transition">
                   <td className="px-4 py-2 font-semibold text-slate-800">{cat.name}</td>
                   <td className="px-4 py-2 capitalize">{cat.type}</td>
+                  <td className="px-4 py-2 text-right">
+                    {cat.budget_amount ? (
+                      <>
+                        {cat.budget_amount.toFixed(2)}
+                        {cat.budget_rollover && cat.budget_rollover !== 'none' && (
+                          <span className="text-xs text-slate-400 ml-1">(rolls over)</span>
+                        )}
+                      </>
+                    ) : (
+                      <span className="text-slate-400">—</span>
+                    )}
+                  </td>
                   <td className="px-4 py-2 text-right space-x-2">
                     <Button onClick={() => setEditingCategory(cat)} variant="secondary" size="sm">Edit</Button>
                     <Button onClick={() => handleCategoryDelete(cat.id)} variant="danger" size="sm">Delete</Button>
@@ -676,7 +1628,7 @@ CREATE TABLE IF NOT EXISTS tax_tables (
               ))}
               {settings.categories.length === 0 && (
                 <tr>
-                  <td colSpan={3} className="px-4 py-6 text-center text-slate-400 italic">
+                  <td colSpan={4} className="px-4 py-6 text-center text-slate-400 italic">
                     No categories yet. Add one to get started.
                   </td>
                 </tr>
@@ -795,18 +1747,181 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                   <option value="savings">Savings</option>
                   <option value="investment">Investment</option>
                   <option value="loan">Loan</option>
+                  <option value="credit_card">Credit Card</option>
                 </select>
               </div>
-              <div className="flex items-center space-x-2">
-                <input 
-                  type="checkbox"
-                  id="in_forecast_settings"
-                  checked={editingAccount.included_in_cash_forecast}
-                  onChange={(e) => setEditingAccount({ ...editingAccount, included_in_cash_forecast: e.target.checked })}
-                  className="w-4 h-4 rounded text-blue-600"
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Currency</label>
+                <select
+                  value={editingAccount.currency || ''}
+                  onChange={(e) => setEditingAccount({ ...editingAccount, currency: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  <option value="">Preferred ({settings.preferred_currency})</option>
+                  {CURRENCY_OPTIONS.map(option => (
+                    <option key={option.code} value={option.code}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+              {editingAccount.type !== 'investment' && editingAccount.type !== 'loan' && (
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">OFX Account Number (Optional)</label>
+                  <input
+                    type="text"
+                    value={editingAccount.ofx_account_number || ''}
+                    onChange={(e) => setEditingAccount({ ...editingAccount, ofx_account_number: e.target.value.trim() || undefined })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                    placeholder="Set on the first OFX/QFX import"
+                  />
+                </div>
+              )}
+              {editingAccount.type === 'credit_card' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Statement Closes (Day)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="31"
+                      value={cardTerms.statement_closing_day}
+                      onChange={(e) => updateCardTerms({ statement_closing_day: Math.min(31, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Payment Due (Day)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="31"
+                      value={cardTerms.payment_due_day}
+                      onChange={(e) => updateCardTerms({ payment_due_day: Math.min(31, Math.max(1, Math.floor(Number(e.target.value) || 1))) })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    />
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Pay From</label>
+                    <select
+                      value={cardTerms.payment_account_id}
+                      onChange={(e) => updateCardTerms({ payment_account_id: e.target.value })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      <option value="">Select account</option>
+                      {paymentAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                    </select>
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Payment</label>
+                    <select
+                      value={cardTerms.payment_policy}
+                      onChange={(e) => updateCardTerms({ payment_policy: e.target.value as CreditCardPaymentPolicy })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      <option value="statement_balance">Full statement balance</option>
+                      <option value="minimum">Minimum payment</option>
+                      <option value="fixed">Fixed amount</option>
+                    </select>
+                  </div>
+                  {cardTerms.payment_policy === 'fixed' && (
+                    <div className="space-y-1 col-span-2">
+                      <label className="text-xs font-bold text-slate-500 uppercase">Fixed Amount</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={cardTerms.fixed_payment_amount ?? ''}
+                        onChange={(e) => updateCardTerms({ fixed_payment_amount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                        onKeyDown={handleAmountKeyDown}
+                        className="w-full px-3 py-2 border rounded-lg"
+                      />
+                    </div>
+                  )}
+                  {cardTerms.payment_policy === 'minimum' && (
+                    <>
+                      <div className="space-y-1">
+                        <label className="text-xs font-bold text-slate-500 uppercase">Minimum (%)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={cardTerms.minimum_payment_percent ?? ''}
+                          placeholder="2"
+                          onChange={(e) => updateCardTerms({ minimum_payment_percent: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          className="w-full px-3 py-2 border rounded-lg"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-xs font-bold text-slate-500 uppercase">At Least</label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={cardTerms.minimum_payment_floor ?? ''}
+                          placeholder="25"
+                          onChange={(e) => updateCardTerms({ minimum_payment_floor: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          className="w-full px-3 py-2 border rounded-lg"
+                        />
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Minimum Balance</label>
+                <input
+                  type="number"
+                  value={editingAccount.minimum_balance ?? ''}
+                  onChange={(e) => setEditingAccount({
+                    ...editingAccount,
+                    minimum_balance: e.target.value === '' ? undefined : Number(e.target.value)
+                  })}
+                  onKeyDown={handleAmountKeyDown}
+                  className="w-full px-3 py-2 border rounded-lg"
+                  placeholder="No minimum"
                 />
-                <label htmlFor="in_forecast_settings" className="text-sm font-medium text-slate-700">Include in Cash Forecast Total</label>
               </div>
+              {(editingAccount.type === 'checking' || editingAccount.type === 'savings') && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">APY (%)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={editingAccount.interest_apy ?? ''}
+                      onChange={(e) => setEditingAccount({
+                        ...editingAccount,
+                        interest_apy: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))
+                      })}
+                      onKeyDown={handleAmountKeyDown}
+                      className="w-full px-3 py-2 border rounded-lg"
+                      placeholder="None"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Interest Paid</label>
+                    <select
+                      value={editingAccount.interest_payout || 'monthly'}
+                      onChange={(e) => setEditingAccount({ ...editingAccount, interest_payout: e.target.value as InterestPayout })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                    >
+                      <option value="monthly">Monthly</option>
+                      <option value="quarterly">Quarterly</option>
+                      <option value="annually">Annually</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+              {editingAccount.type !== 'credit_card' && (
+                <div className="flex items-center space-x-2">
+                  <input 
+                    type="checkbox"
+                    id="in_forecast_settings"
+                    checked={editingAccount.included_in_cash_forecast}
+                    onChange={(e) => setEditingAccount({ ...editingAccount, included_in_cash_forecast: e.target.checked })}
+                    className="w-4 h-4 rounded text-blue-600"
+                  />
+                  <label htmlFor="in_forecast_settings" className="text-sm font-medium text-slate-700">Include in Cash Forecast Total</label>
+                </div>
+              )}
             </div>
             <div className="flex justify-end space-x-3 pt-4">
               <Button onClick={() => setEditingAccount(null)} variant="secondary">Cancel</Button>
@@ -843,6 +1958,38 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                   <option value="transfer">Transfer</option>
                 </select>
               </div>
+              {editingCategory.type === 'expense' && (
+                <>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Monthly Budget (Optional)</label>
+                    <input
+                      type="number"
+                      value={editingCategory.budget_amount ?? ''}
+                      onChange={(e) => setEditingCategory({
+                        ...editingCategory,
+                        budget_amount: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value) || 0)
+                      })}
+                      onKeyDown={handleAmountKeyDown}
+                      className="w-full px-3 py-2 border rounded-lg"
+                      placeholder="No budget"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Rollover</label>
+                    <select
+                      value={editingCategory.budget_rollover || 'none'}
+                      onChange={(e) => setEditingCategory({ ...editingCategory, budget_rollover: e.target.value as BudgetRollover })}
+                      className="w-full px-3 py-2 border rounded-lg"
+                      disabled={!editingCategory.budget_amount}
+                    >
+                      <option value="none">None</option>
+                      <option value="surplus">Carry underspend</option>
+                      <option value="full">Carry underspend and overspend</option>
+                    </select>
+                    <p className="text-xs text-slate-400">Leftovers carry to the next month and reset each January.</p>
+                  </div>
+                </>
+              )}
             </div>
             <div className="flex justify-end space-x-3 pt-4">
               <Button onClick={() => setEditingCategory(null)} variant="secondary">Cancel</Button>
@@ -913,6 +2060,20 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                   className="w-full px-3 py-2 border rounded-lg"
                 />
               </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Linked Account</label>
+                <select
+                  value={editingLoan.account_id || ''}
+                  onChange={(e) => setEditingLoan({ ...editingLoan, account_id: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                >
+                  <option value="">None</option>
+                  {sortedAccounts.filter(acc => acc.type === 'loan').map(acc => (
+                    <option key={acc.id} value={acc.id}>{acc.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500">Net worth uses this loan instead of the linked account's balance.</p>
+              </div>
             </div>
             <div className="flex justify-end space-x-3 pt-4">
               <Button onClick={() => setEditingLoan(null)} variant="secondary">Cancel</Button>
@@ -940,25 +2101,164 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                 <label className="text-xs font-bold text-slate-500 uppercase">Cadence</label>
                 <select
                   value={editingRecurring.cadence}
-                  onChange={(e) => setEditingRecurring({ ...editingRecurring, cadence: e.target.value as RecurringItem['cadence'] })}
+                  onChange={(e) => handleRecurringCadenceChange(e.target.value as RecurringItem['cadence'])}
                   className="w-full px-3 py-2 border rounded-lg"
                 >
                   <option value="monthly">Monthly</option>
                   <option value="weekly">Weekly</option>
                   <option value="biweekly">Biweekly</option>
                   <option value="semimonthly">Semi-monthly</option>
+                  <option value="custom">Custom rule</option>
                 </select>
               </div>
+              {editingRecurring.cadence === 'semimonthly' && (
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Days (day or "last")</label>
+                  <div className="flex gap-2">
+                    {(editingRecurring.semimonthly_days || DEFAULT_SEMIMONTHLY_DAYS).map((day, index) => (
+                      <input
+                        key={index}
+                        type="text"
+                        value={day}
+                        onChange={(e) => updateSemimonthlyDay(index, e.target.value)}
+                        className="w-full px-3 py-2 border rounded-lg"
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+              {editingRecurring.cadence !== 'custom' && editingRecurring.cadence !== 'semimonthly' && (
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Day Rule</label>
+                  <input
+                    type="text"
+                    value={editingRecurring.day_rule}
+                    onChange={(e) => setEditingRecurring({ ...editingRecurring, day_rule: e.target.value })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                    placeholder="1, 15, last"
+                  />
+                </div>
+              )}
               <div className="space-y-1">
-                <label className="text-xs font-bold text-slate-500 uppercase">Day Rule</label>
-                <input
-                  type="text"
-                  value={editingRecurring.day_rule}
-                  onChange={(e) => setEditingRecurring({ ...editingRecurring, day_rule: e.target.value })}
+                <label className="text-xs font-bold text-slate-500 uppercase">Weekend / Holiday</label>
+                <select
+                  value={editingRecurring.business_day_roll || 'none'}
+                  onChange={(e) => setEditingRecurring({ ...editingRecurring, business_day_roll: e.target.value as BusinessDayRoll })}
                   className="w-full px-3 py-2 border rounded-lg"
-                  placeholder="1, 15, last"
-                />
+                >
+                  <option value="none">Keep scheduled date</option>
+                  <option value="previous">Previous business day</option>
+                  <option value="next">Next business day</option>
+                </select>
               </div>
+              {editingRecurring.cadence === 'custom' && editingRecurring.recurrence && (
+                <div className="space-y-3 md:col-span-2 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <label className="text-xs font-bold text-slate-500 uppercase">Repeats</label>
+                      <select
+                        value={editingRecurring.recurrence.frequency}
+                        onChange={(e) => updateRecurrence({ frequency: e.target.value as RecurrenceRule['frequency'] })}
+                        className="w-full px-3 py-2 border rounded-lg"
+                      >
+                        <option value="weekly">Weekly</option>
+                        <option value="monthly">Monthly</option>
+                        <option value="yearly">Yearly</option>
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-xs font-bold text-slate-500 uppercase">Every N</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={editingRecurring.recurrence.interval}
+                        onChange={(e) => updateRecurrence({ interval: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                        className="w-full px-3 py-2 border rounded-lg"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">In Months</label>
+                    <div className="flex flex-wrap gap-1">
+                      {MONTH_LABELS.map((label, index) => {
+                        const selected = editingRecurring.recurrence?.by_month?.includes(index + 1);
+                        return (
+                          <button
+                            key={label}
+                            type="button"
+                            onClick={() => toggleRecurrenceMonth(index + 1)}
+                            className={`px-2 py-1 rounded border text-xs font-semibold ${selected ? 'bg-blue-100 border-blue-300 text-blue-700' : 'bg-white border-slate-200 text-slate-600'}`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-xs font-bold text-slate-500 uppercase">Days of Month</label>
+                    <input
+                      type="text"
+                      value={monthDaysInput}
+                      onChange={(e) => setMonthDaysInput(e.target.value)}
+                      onBlur={commitMonthDays}
+                      onKeyDown={handleAmountKeyDown}
+                      className="w-full px-3 py-2 border rounded-lg"
+                      placeholder="1, 15, last"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-xs font-bold text-slate-500 uppercase">Weekdays</label>
+                      <Button
+                        onClick={() => updateRecurrence({ by_weekday: [...(editingRecurring.recurrence?.by_weekday || []), { weekday: 1 }] })}
+                        variant="secondary"
+                        size="sm"
+                        type="button"
+                      >
+                        Add Weekday
+                      </Button>
+                    </div>
+                    {(editingRecurring.recurrence.by_weekday || []).map((entry, index) => (
+                      <div key={index} className="grid grid-cols-5 gap-2 items-center">
+                        <select
+                          value={entry.ordinal ?? 0}
+                          onChange={(e) => updateRecurrenceWeekday(index, { ordinal: Number(e.target.value) || undefined })}
+                          className="px-3 py-2 border rounded-lg col-span-2"
+                        >
+                          <option value={0}>Every</option>
+                          <option value={1}>1st</option>
+                          <option value={2}>2nd</option>
+                          <option value={3}>3rd</option>
+                          <option value={4}>4th</option>
+                          <option value={5}>5th</option>
+                          <option value={-1}>Last</option>
+                        </select>
+                        <select
+                          value={entry.weekday}
+                          onChange={(e) => updateRecurrenceWeekday(index, { weekday: Number(e.target.value) })}
+                          className="px-3 py-2 border rounded-lg col-span-2"
+                        >
+                          {WEEKDAY_LABELS.map((label, weekday) => (
+                            <option key={label} value={weekday}>{label}</option>
+                          ))}
+                        </select>
+                        <Button
+                          onClick={() => updateRecurrence({ by_weekday: (editingRecurring.recurrence?.by_weekday || []).filter((_, i) => i !== index) })}
+                          variant="danger"
+                          size="sm"
+                          type="button"
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {describeRecurrence(editingRecurring.recurrence)}. Intervals count from the anchor date; with no days or weekdays set, the anchor's day is used.
+                  </p>
+                </div>
+              )}
               <div className="space-y-1">
                 <label className="text-xs font-bold text-slate-500 uppercase">Default Amount</label>
                 <input
@@ -969,6 +2269,68 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                   className="w-full px-3 py-2 border rounded-lg"
                 />
               </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Annual Escalation %</label>
+                <input
+                  type="number"
+                  step="0.1"
+                  value={editingRecurring.annual_escalation_percent ?? ''}
+                  onChange={(e) => setEditingRecurring({ ...editingRecurring, annual_escalation_percent: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  onKeyDown={handleAmountKeyDown}
+                  className="w-full px-3 py-2 border rounded-lg"
+                  placeholder="e.g. 3"
+                />
+              </div>
+              <div className="space-y-1 md:col-span-2">
+                <label className="text-xs font-bold text-slate-500 uppercase">Amount Variability (range forecast)</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {([['min', 'Min'], ['max', 'Max'], ['std_dev', 'Std Dev']] as [keyof AmountVariability, string][]).map(([field, label]) => (
+                    <input
+                      key={field}
+                      type="number"
+                      step="0.01"
+                      value={editingRecurring.variability?.[field] ?? ''}
+                      onChange={(e) => updateRecurringVariability(field, e.target.value)}
+                      onKeyDown={handleAmountKeyDown}
+                      className="w-full px-3 py-2 border rounded-lg"
+                      placeholder={label}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Amount Changes</label>
+                  <Button onClick={handleAddAmountChange} variant="secondary" size="sm" type="button">
+                    Add Change
+                  </Button>
+                </div>
+                {[...(editingRecurring.amount_schedule || [])]
+                  .sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+                  .map(entry => (
+                    <div key={entry.id} className="grid grid-cols-5 gap-2 items-center">
+                      <input
+                        type="date"
+                        value={entry.effective_date}
+                        onChange={(e) => updateAmountChange(entry.id, { effective_date: e.target.value })}
+                        className="px-3 py-2 border rounded-lg col-span-2"
+                      />
+                      <input
+                        type="number"
+                        value={entry.amount}
+                        onChange={(e) => updateAmountChange(entry.id, { amount: Number(e.target.value) })}
+                        onKeyDown={handleAmountKeyDown}
+                        className="px-3 py-2 border rounded-lg col-span-2"
+                      />
+                      <Button onClick={() => removeAmountChange(entry.id)} variant="danger" size="sm" type="button">
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                {!(editingRecurring.amount_schedule || []).length && (
+                  <p className="text-xs text-slate-400 italic">No scheduled changes; the default amount applies.</p>
+                )}
+              </div>
               <div className="space-y-1">
                 <label className="text-xs font-bold text-slate-500 uppercase">Type</label>
                 <select
@@ -985,11 +2347,44 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                 <label className="text-xs font-bold text-slate-500 uppercase">Anchor Date</label>
                 <input
                   type="date"
-                  value={editingRecurring.anchor_date || `${currentSnapshot?.id || new Date().toISOString().slice(0, 7)}-01`}
+                  value={editingRecurring.anchor_date || defaultAnchorDate}
                   onChange={(e) => setEditingRecurring({ ...editingRecurring, anchor_date: e.target.value })}
                   className="w-full px-3 py-2 border rounded-lg"
                 />
               </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Start Date (Optional)</label>
+                <input
+                  type="date"
+                  value={editingRecurring.start_date || ''}
+                  onChange={(e) => setEditingRecurring({ ...editingRecurring, start_date: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">End Date (Optional)</label>
+                <input
+                  type="date"
+                  value={editingRecurring.end_date || ''}
+                  onChange={(e) => setEditingRecurring({ ...editingRecurring, end_date: e.target.value || undefined })}
+                  className="w-full px-3 py-2 border rounded-lg"
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs font-bold text-slate-500 uppercase">Max Occurrences (Optional)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={editingRecurring.max_occurrences ?? ''}
+                  onChange={(e) => {
+                    const parsed = Math.floor(Number(e.target.value));
+                    setEditingRecurring({ ...editingRecurring, max_occurrences: parsed > 0 ? parsed : undefined });
+                  }}
+                  onKeyDown={handleAmountKeyDown}
+                  className="w-full px-3 py-2 border rounded-lg"
+                  placeholder="e.g. 12"
+                />
+              </div>
               <div className="space-y-1">
                 <label className="text-xs font-bold text-slate-500 uppercase">Account</label>
                 <select
@@ -1017,6 +2412,21 @@ CREATE TABLE IF NOT EXISTS tax_tables (
                   </select>
                 </div>
               )}
+              {editingRecurring.type === 'transfer' && savingsGoals.length > 0 && (
+                <div className="space-y-1">
+                  <label className="text-xs font-bold text-slate-500 uppercase">Savings Goal (Optional)</label>
+                  <select
+                    value={editingRecurring.goal_id || ''}
+                    onChange={(e) => setEditingRecurring({ ...editingRecurring, goal_id: e.target.value || undefined })}
+                    className="w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="">No Goal</option>
+                    {savingsGoals.map(goal => (
+                      <option key={goal.id} value={goal.id}>{goal.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
               <div className="space-y-1">
                 <label className="text-xs font-bold text-slate-500 uppercase">Category</label>
                 <select
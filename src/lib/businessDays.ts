@@ -0,0 +1,92 @@
+import { BusinessDayRoll, HolidayCalendarSettings } from './payroll/types';
+import { addMonths } from './month';
+
+export type HolidayLookup = (date: string) => boolean;
+
+export interface BusinessDayOptions {
+  roll: BusinessDayRoll;
+  isHoliday: HolidayLookup;
+}
+
+const parseDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const formatDate = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const getNthWeekday = (year: number, month: number, weekday: number, ordinal: number) => {
+  if (ordinal === -1) {
+    const last = new Date(year, month, 0);
+    return new Date(year, month - 1, last.getDate() - ((last.getDay() - weekday + 7) % 7));
+  }
+  const first = new Date(year, month - 1, 1);
+  return new Date(year, month - 1, 1 + ((weekday - first.getDay() + 7) % 7) + (ordinal - 1) * 7);
+};
+
+// Fixed-date holidays falling on a Sunday are observed Monday; Saturday holidays are not moved (Federal Reserve rule).
+const observe = (date: Date) => {
+  return date.getDay() === 0 ? new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1) : date;
+};
+
+export const getUsFederalHolidays = (year: number) => [
+  { date: formatDate(observe(new Date(year, 0, 1))), name: "New Year's Day" },
+  { date: formatDate(getNthWeekday(year, 1, 1, 3)), name: 'Martin Luther King Jr. Day' },
+  { date: formatDate(getNthWeekday(year, 2, 1, 3)), name: "Washington's Birthday" },
+  { date: formatDate(getNthWeekday(year, 5, 1, -1)), name: 'Memorial Day' },
+  { date: formatDate(observe(new Date(year, 5, 19))), name: 'Juneteenth' },
+  { date: formatDate(observe(new Date(year, 6, 4))), name: 'Independence Day' },
+  { date: formatDate(getNthWeekday(year, 9, 1, 1)), name: 'Labor Day' },
+  { date: formatDate(getNthWeekday(year, 10, 1, 2)), name: 'Columbus Day' },
+  { date: formatDate(observe(new Date(year, 10, 11))), name: 'Veterans Day' },
+  { date: formatDate(getNthWeekday(year, 11, 4, 4)), name: 'Thanksgiving Day' },
+  { date: formatDate(observe(new Date(year, 11, 25))), name: 'Christmas Day' },
+];
+
+export const createHolidayLookup = (calendar?: HolidayCalendarSettings): HolidayLookup => {
+  const custom = new Set((calendar?.custom_holidays || []).map(holiday => holiday.date));
+  const federalByYear = new Map<number, Set<string>>();
+  return (date: string) => {
+    if (custom.has(date)) return true;
+    if (calendar && !calendar.us_federal_enabled) return false;
+    const year = Number(date.slice(0, 4));
+    if (!federalByYear.has(year)) {
+      federalByYear.set(year, new Set(getUsFederalHolidays(year).map(holiday => holiday.date)));
+    }
+    return federalByYear.get(year)!.has(date);
+  };
+};
+
+export const isBusinessDay = (date: string, isHoliday: HolidayLookup) => {
+  const day = parseDate(date).getDay();
+  return day !== 0 && day !== 6 && !isHoliday(date);
+};
+
+export const rollToBusinessDay = (date: string, options: BusinessDayOptions) => {
+  if (options.roll === 'none') return date;
+  const step = options.roll === 'previous' ? -1 : 1;
+  let current = parseDate(date);
+  for (let i = 0; i < 14 && !isBusinessDay(formatDate(current), options.isHoliday); i += 1) {
+    current = new Date(current.getFullYear(), current.getMonth(), current.getDate() + step);
+  }
+  return formatDate(current);
+};
+
+// Rolls the neighbouring months too so dates pushed across a month boundary land in the month they are paid.
+export const rollDatesIntoMonth = (
+  monthId: string,
+  getDates: (monthId: string) => string[],
+  options?: BusinessDayOptions
+) => {
+  if (!options || options.roll === 'none') return getDates(monthId);
+  return [addMonths(monthId, -1), monthId, addMonths(monthId, 1)]
+    .flatMap(id => getDates(id))
+    .map(date => rollToBusinessDay(date, options))
+    .filter(date => date.startsWith(monthId))
+    .sort();
+};
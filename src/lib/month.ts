@@ -0,0 +1,29 @@
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const formatMonthId = (date: Date) => {
+  const year = date.getFullYear();
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  return `${year}-${month}`;
+};
+
+export const addMonths = (monthId: string, delta: number) => {
+  const [year, month] = monthId.split('-').map(Number);
+  const date = new Date(year, month - 1 + delta, 1);
+  return formatMonthId(date);
+};
+
+export const buildMonthRange = (startId: string, endId: string) => {
+  if (!startId || !endId) return [];
+  const [startYear, startMonth] = startId.split('-').map(Number);
+  const [endYear, endMonth] = endId.split('-').map(Number);
+  const start = new Date(startYear, startMonth - 1, 1);
+  const end = new Date(endYear, endMonth - 1, 1);
+  if (start > end) return [];
+  const months: string[] = [];
+  const cursor = new Date(start);
+  while (cursor <= end) {
+    months.push(formatMonthId(cursor));
+    cursor.setMonth(cursor.getMonth() + 1);
+  }
+  return months;
+};
@@ -1,6 +1,7 @@
 import { calculateFederalWithholding } from './federal/withholding';
 import { StateTaxPlugin } from './state';
-import { BonusEvent, BonusWithholdingMethod, FilingStatus, PayrollSettings, TaxTableSet } from './types';
+import { BonusEvent, BonusWithholdingMethod, FilingStatus, PayrollSettings, SemimonthlyDays, TaxTableSet } from './types';
+import { BusinessDayOptions, rollDatesIntoMonth } from '../businessDays';
 
 export interface PayrollPaycheckResult {
   id: string;
@@ -64,6 +65,21 @@ const getMonthlyDate = (monthId: string, day: number) => {
   return `${monthId}-${clamped.toString().padStart(2, '0')}`;
 };
 
+export const DEFAULT_SEMIMONTHLY_DAYS: SemimonthlyDays = ['15', 'last'];
+
+export const getSemimonthlyDates = (monthId: string, days: SemimonthlyDays = DEFAULT_SEMIMONTHLY_DAYS) => {
+  const { daysInMonth } = getMonthInfo(monthId);
+  const resolved = days.map((rule, index) => {
+    const value = rule || DEFAULT_SEMIMONTHLY_DAYS[index];
+    if (value === 'last') return daysInMonth;
+    const day = parseInt(value, 10);
+    return Number.isFinite(day) ? Math.min(Math.max(day, 1), daysInMonth) : daysInMonth;
+  });
+  return [...new Set(resolved)]
+    .sort((a, b) => a - b)
+    .map(day => `${monthId}-${day.toString().padStart(2, '0')}`);
+};
+
 const getDatesByInterval = (start: Date, end: Date, anchorDate: Date, intervalDays: number) => {
   let current = new Date(anchorDate);
   while (current < start) {
@@ -79,8 +95,13 @@ const getDatesByInterval = (start: Date, end: Date, anchorDate: Date, intervalDa
   return dates;
 };
 
-const getPayDatesForMonth = (monthId: string, schedule: PaySchedule, anchorDate: string) => {
-  const { start, end, daysInMonth } = getMonthInfo(monthId);
+const getScheduledPayDates = (
+  monthId: string,
+  schedule: PaySchedule,
+  anchorDate: string,
+  semimonthlyDays?: SemimonthlyDays
+) => {
+  const { start, end } = getMonthInfo(monthId);
   if (schedule === 'weekly') {
     return getDatesByInterval(start, end, parseDate(anchorDate), 7);
   }
@@ -88,15 +109,26 @@ const getPayDatesForMonth = (monthId: string, schedule: PaySchedule, anchorDate:
     return getDatesByInterval(start, end, parseDate(anchorDate), 14);
   }
   if (schedule === 'semimonthly') {
-    return [
-      `${monthId}-15`,
-      `${monthId}-${daysInMonth.toString().padStart(2, '0')}`
-    ];
+    return getSemimonthlyDates(monthId, semimonthlyDays);
   }
   const anchorDay = parseDate(anchorDate).getDate();
   return [getMonthlyDate(monthId, anchorDay)];
 };
 
+const getPayDatesForMonth = (
+  monthId: string,
+  schedule: PaySchedule,
+  anchorDate: string,
+  semimonthlyDays?: SemimonthlyDays,
+  businessDays?: BusinessDayOptions
+) => {
+  return rollDatesIntoMonth(
+    monthId,
+    (id) => getScheduledPayDates(id, schedule, anchorDate, semimonthlyDays),
+    businessDays
+  );
+};
+
 const getPayPeriodsPerYear = (schedule: PaySchedule) => {
   if (schedule === 'weekly') return 52;
   if (schedule === 'biweekly') return 26;
@@ -112,17 +144,30 @@ const resolveAdditionalMedicareThreshold = (
   return threshold[filingStatus];
 };
 
-const buildYearToDatePayDates = (monthId: string, schedule: PaySchedule, anchorDate: string) => {
+const buildYearToDatePayDates = (
+  monthId: string,
+  schedule: PaySchedule,
+  anchorDate: string,
+  semimonthlyDays?: SemimonthlyDays,
+  businessDays?: BusinessDayOptions
+) => {
   const year = monthId.split('-')[0];
   const months = [];
   for (let i = 1; i <= Number(monthId.split('-')[1]); i += 1) {
     months.push(`${year}-${String(i).padStart(2, '0')}`);
   }
-  return months.flatMap((id) => getPayDatesForMonth(id, schedule, anchorDate));
+  return months.flatMap((id) => getPayDatesForMonth(id, schedule, anchorDate, semimonthlyDays, businessDays));
 };
 
-const buildPayrollEvents = (monthId: string, schedule: PaySchedule, anchorDate: string, bonusEvents: BonusEvent[]) => {
-  const payDates = buildYearToDatePayDates(monthId, schedule, anchorDate);
+const buildPayrollEvents = (
+  monthId: string,
+  schedule: PaySchedule,
+  anchorDate: string,
+  bonusEvents: BonusEvent[],
+  semimonthlyDays?: SemimonthlyDays,
+  businessDays?: BusinessDayOptions
+) => {
+  const payDates = buildYearToDatePayDates(monthId, schedule, anchorDate, semimonthlyDays, businessDays);
   const regularEvents = payDates.map(date => ({
     id: `regular:${date}`,
     date,
@@ -151,6 +196,8 @@ export const calculatePayrollForMonth = ({
   monthId,
   schedule,
   anchorDate,
+  semimonthlyDays,
+  businessDays,
   payrollSettings,
   taxTables,
   stateWithholding,
@@ -158,13 +205,22 @@ export const calculatePayrollForMonth = ({
   monthId: string;
   schedule: PaySchedule;
   anchorDate: string;
+  semimonthlyDays?: SemimonthlyDays;
+  businessDays: BusinessDayOptions; // callers build it from the user's holiday calendar
   payrollSettings: PayrollSettings;
   taxTables: TaxTableSet;
   stateWithholding?: StateTaxPlugin;
 }): PayrollEngineResult => {
   const payPeriodsPerYear = getPayPeriodsPerYear(schedule);
   const grossPerPaycheck = payrollSettings.salary_annual / payPeriodsPerYear;
-  const events = buildPayrollEvents(monthId, schedule, anchorDate, payrollSettings.bonus_events || []);
+  const events = buildPayrollEvents(
+    monthId,
+    schedule,
+    anchorDate,
+    payrollSettings.bonus_events || [],
+    semimonthlyDays || payrollSettings.semimonthly_days,
+    businessDays
+  );
 
   let ytdGross = 0;
   let ytdTaxable = 0;
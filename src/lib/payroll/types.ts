@@ -2,6 +2,19 @@ export type FilingStatus = 'single' | 'married_joint' | 'head_of_household';
 export type PayCycle = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
 export type ContributionMode = 'percent' | 'fixed_per_paycheck';
 export type BonusWithholdingMethod = 'supplemental_flat' | 'regular_annualized';
+export type SemimonthlyDays = [string, string]; // day rules such as "15" or "last"
+export type BusinessDayRoll = 'none' | 'previous' | 'next';
+
+export interface CustomHoliday {
+  id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export interface HolidayCalendarSettings {
+  us_federal_enabled: boolean;
+  custom_holidays: CustomHoliday[];
+}
 
 export interface Payroll401kSettings {
   enabled: boolean;
@@ -35,6 +48,8 @@ export interface PayrollSettings {
   tax_year: number;
   filing_status: FilingStatus;
   pay_cycle: PayCycle;
+  semimonthly_days?: SemimonthlyDays;
+  pay_date_roll?: BusinessDayRoll; // moves pay dates off weekends and holidays
   paycheck_anchor_date?: string;
   paycheck_category_id?: string;
   salary_annual: number;
@@ -1,17 +1,42 @@
 
-import { PayrollSettings } from './src/lib/payroll/types';
+import { BusinessDayRoll, HolidayCalendarSettings, PayrollSettings, SemimonthlyDays } from './src/lib/payroll/types';
 
-export type AccountType = 'checking' | 'savings' | 'investment' | 'loan';
+export type { CustomHoliday, HolidayCalendarSettings } from './src/lib/payroll/types';
+
+export type AccountType = 'checking' | 'savings' | 'investment' | 'loan' | 'credit_card';
 export type CategoryType = 'income' | 'expense' | 'transfer';
-export type RecurringCadence = 'monthly' | 'weekly' | 'biweekly' | 'semimonthly';
+// What a month's leftover budget does: nothing, carry only an underspend, or carry overspends too
+export type BudgetRollover = 'none' | 'surplus' | 'full';
+export type RecurringCadence = 'monthly' | 'weekly' | 'biweekly' | 'semimonthly' | 'custom';
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly';
 export type RecurringItemType = 'income' | 'expense' | 'transfer';
 export type PaycheckSchedule = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+export type InterestPayout = 'monthly' | 'quarterly' | 'annually';
+export type TransactionStatus = 'pending' | 'cleared' | 'reconciled';
+export type CreditCardPaymentPolicy = 'statement_balance' | 'minimum' | 'fixed';
+
+// Card balances are negative while money is owed; purchases are ordinary expenses on the card account
+export interface CreditCardTerms {
+  statement_closing_day: number; // 1-31, clamped to the end of short months
+  payment_due_day: number; // first occurrence after the closing day
+  payment_policy: CreditCardPaymentPolicy;
+  payment_account_id: string; // account the payment is drawn from
+  fixed_payment_amount?: number;
+  minimum_payment_percent?: number; // of the statement balance, defaults to 2
+  minimum_payment_floor?: number; // defaults to 25
+}
 
 export interface Account {
   id: string;
   name: string;
   type: AccountType;
+  currency?: string; // ISO code; omitted = the preferred currency
   included_in_cash_forecast: boolean;
+  minimum_balance?: number; // buffer the forecast warns about when breached
+  interest_apy?: number; // APY percent, accrued daily on the positive balance
+  interest_payout?: InterestPayout; // credited on the last day of each period; defaults to monthly
+  credit_card?: CreditCardTerms; // used when type is 'credit_card'
+  ofx_account_number?: string; // ACCTID from OFX/QFX downloads, remembered after the first import
   created_at: number;
   updated_at: number;
 }
@@ -20,14 +45,25 @@ export interface Category {
   id: string;
   name: string;
   type: CategoryType;
+  budget_amount?: number; // monthly spending budget, expense categories only
+  budget_rollover?: BudgetRollover; // leftovers carry within a calendar year
   created_at: number;
   updated_at: number;
 }
 
+// Range applied to an amount's magnitude when simulating; std_dev draws a normal, otherwise min/max draw uniformly
+export interface AmountVariability {
+  min?: number;
+  max?: number;
+  std_dev?: number;
+}
+
 export interface Transaction {
   id: string;
   date: string; // ISO format YYYY-MM-DD
   amount: number; // Positive = Inflow, Negative = Outflow
+  actual_amount?: number; // what actually posted, same sign convention; the forecast uses it when set
+  status?: TransactionStatus; // omitted = pending
   account_id: string;
   transfer_account_id?: string;
   transaction_type?: 'income' | 'expense' | 'transfer';
@@ -35,13 +71,32 @@ export interface Transaction {
   description: string;
   notes?: string;
   loan_id?: string;
+  goal_id?: string; // savings goal the transfer contributes to (or draws from)
   created_at: number;
   updated_at: number;
-  source?: 'generated' | 'manual';
+  source?: 'generated' | 'manual' | 'imported';
   source_item_id?: string;
+  import_id?: string; // fingerprint of the bank statement row it came from or was matched to
   generated_batch_id?: string;
+  variability?: AmountVariability;
+  user_modified?: boolean;
+  overrides?: TransactionOverrides; // user edits layered over the generated values
+  generated_values?: TransactionOverrides; // values as last generated, used to detect source changes
+  source_changed?: boolean;
 }
 
+export type TransactionOverrideField =
+  | 'date'
+  | 'amount'
+  | 'account_id'
+  | 'transfer_account_id'
+  | 'category_id'
+  | 'loan_id'
+  | 'goal_id'
+  | 'description';
+
+export type TransactionOverrides = Partial<Pick<Transaction, TransactionOverrideField>>;
+
 export interface StartingBalance {
   account_id: string;
   amount: number;
@@ -63,6 +118,7 @@ export interface Loan {
   current_balance: number;
   interest_rate: number; // APR percent
   maturity_date: string; // YYYY-MM-DD
+  account_id?: string; // loan-type account that mirrors this loan; net worth counts the loan only once
   payment_history: LoanPaymentRecord[];
   created_at: number;
   updated_at: number;
@@ -78,6 +134,25 @@ export interface InvestmentValuationEntry {
   valuations: StartingBalance[]; // account_id -> market value
 }
 
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal?: number; // 1-5 = nth in month, -1 = last; omitted = every occurrence
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // every N weeks/months/years, counted from the item's anchor date
+  by_month?: number[]; // 1-12
+  by_month_day?: number[]; // 1-31, -1 = last day of month
+  by_weekday?: RecurrenceWeekday[];
+}
+
+export interface RecurringAmountChange {
+  id: string;
+  effective_date: string; // YYYY-MM-DD
+  amount: number;
+}
+
 export interface RecurringItem {
   id: string;
   name: string;
@@ -85,12 +160,22 @@ export interface RecurringItem {
   account_id: string;
   transfer_account_id?: string;
   loan_id?: string;
+  goal_id?: string; // tags generated transfers as contributions
   cadence: RecurringCadence;
   default_amount: number;
   day_rule: string; // e.g. "1", "15", "last"
   type: RecurringItemType;
   enabled: boolean;
   anchor_date?: string; // YYYY-MM-DD for weekly/biweekly anchoring
+  recurrence?: RecurrenceRule; // used when cadence is 'custom'
+  semimonthly_days?: SemimonthlyDays; // used when cadence is 'semimonthly'
+  business_day_roll?: BusinessDayRoll;
+  start_date?: string; // YYYY-MM-DD, first date the item may occur
+  end_date?: string; // YYYY-MM-DD, last date the item may occur
+  max_occurrences?: number; // total occurrences counted from start_date (or anchor_date)
+  amount_schedule?: RecurringAmountChange[]; // replaces default_amount from each effective date
+  annual_escalation_percent?: number; // compounded yearly from the amount's effective date
+  variability?: AmountVariability;
   created_at: number;
   updated_at: number;
 }
@@ -125,11 +210,14 @@ export interface OneOffAdjustment {
   category_id: string;
   loan_id?: string;
   type: RecurringItemType;
+  variability?: AmountVariability;
 }
 
 export interface MonthSetup {
   paycheck_schedule: PaycheckSchedule;
   paycheck_anchor_date: string;
+  paycheck_semimonthly_days?: SemimonthlyDays;
+  paycheck_business_day_roll?: BusinessDayRoll;
   paycheck_deposit_splits: PaycheckDepositSplit[];
   paycheck_category_id: string;
   paycheck_default_amount: number;
@@ -147,12 +235,157 @@ export interface MonthSnapshot {
   categories: Category[];
   transactions: Transaction[];
   starting_balances: StartingBalance[];
+  starting_balances_pinned?: boolean; // reconciled actuals; roll-forward stops here
+  card_statements?: Record<string, number>; // statement balances carried in from the previous month, by card account
   schema_version: number;
   month_setup?: MonthSetup;
+  generation_history?: GenerationRun[];
+  scenarios?: Scenario[];
+  reconciliations?: Reconciliation[];
   updated_at: number;
   device_id: string;
 }
 
+// A bank balance checked against the forecast running balance on a given day
+export interface Reconciliation {
+  id: string;
+  account_id: string;
+  date: string; // YYYY-MM-DD
+  bank_balance: number;
+  forecast_balance: number; // forecast running balance when it was recorded
+  cleared_balance: number; // opening balance plus cleared and reconciled transactions through the date
+  created_at: number;
+}
+
+export interface ScenarioTransactionChange {
+  transaction_id: string;
+  changes: TransactionOverrides;
+}
+
+export interface ScenarioRecurringOverride {
+  item_id: string;
+  amount?: number; // replaces the magnitude of every occurrence, in later forecast months too
+  skip?: boolean;
+}
+
+// What-if changes layered over a month's transactions; the snapshot itself is never modified
+export interface Scenario {
+  id: string;
+  name: string;
+  added_transactions: Transaction[];
+  removed_transaction_ids: string[];
+  modified_transactions: ScenarioTransactionChange[];
+  recurring_overrides: ScenarioRecurringOverride[];
+  created_at: number;
+  updated_at: number;
+}
+
+export type BulkOneOffPolicy = 'keep' | 'copy' | 'clear';
+
+export interface BulkGenerationMonthResult {
+  month_id: string;
+  created: boolean;
+  added: number;
+  changed: number;
+  removed: number;
+}
+
+export interface BulkGenerationSummary {
+  template_month_id: string;
+  months: BulkGenerationMonthResult[];
+  generated_at: number;
+}
+
+export interface GenerationRunChange {
+  kind: 'added' | 'removed' | 'changed';
+  before?: Transaction; // row as it was before the run; absent for added rows
+  after?: Pick<Transaction, 'id' | 'updated_at'>; // row the run wrote; absent for removed rows
+}
+
+export interface GenerationRun {
+  batch_id: string;
+  generated_at: number;
+  mode: 'missing' | 'regenerate' | 'reset';
+  added: number;
+  changed: number;
+  removed: number;
+  month_setup: MonthSetup; // setup the run was generated from
+  previous_month_setup?: MonthSetup; // setup before the run, restored on rollback
+  changes: GenerationRunChange[]; // only the rows the run touched
+}
+
+// Money set aside inside account_id; progress counts transactions tagged with the goal
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  target_amount: number;
+  target_date: string; // YYYY-MM-DD
+  account_id: string; // account holding the goal's money
+  starting_amount?: number; // already saved before contributions were tagged
+  recurring_item_id?: string; // auto-contribution transfer
+  created_at: number;
+  updated_at: number;
+}
+
+export interface SavingsGoalProgress {
+  goal_id: string;
+  saved: number; // starting amount plus tagged transactions through today
+  scheduled: number; // tagged transactions after today through the target date
+  remaining: number;
+  months_remaining: number; // contribution months left, counting the current one; 0 once the date has passed
+  required_monthly: number;
+  percent: number; // 0-100
+  status: 'complete' | 'on_track' | 'behind' | 'overdue';
+}
+
+// Moves money into target_account_id whenever the forecast would drop it below threshold
+export interface SweepRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  target_account_id: string;
+  source_account_id: string;
+  threshold: number;
+  target_balance?: number; // refill level; defaults to threshold
+  max_amount: number; // per transfer, 0 = no cap
+  increment: number; // transfers are rounded up to this step
+  lead_days: number; // 1 = the day before the shortfall
+  category_id?: string;
+}
+
+// 1 base_currency = rate quote_currency from effective_date until the next entry for the pair
+export interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+  effective_date: string; // YYYY-MM-DD
+}
+
+export type BankImportDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYYMMDD';
+
+// signed: one amount column, negative = outflow; inverted: one column, positive = outflow; debit_credit: two columns
+export type BankImportAmountMode = 'signed' | 'inverted' | 'debit_credit';
+
+// How one bank's CSV export maps onto transactions; columns are header names or 1-based column numbers
+export interface BankImportProfile {
+  id: string;
+  name: string;
+  account_id?: string; // default account for statements from this bank
+  category_id?: string; // category for rows that don't match a forecast transaction
+  delimiter: ',' | ';' | '\t';
+  has_header: boolean;
+  date_column: string;
+  date_format: BankImportDateFormat;
+  description_column: string;
+  amount_mode: BankImportAmountMode;
+  amount_column?: string;
+  debit_column?: string;
+  credit_column?: string;
+  created_at: number;
+  updated_at: number;
+}
+
 export interface AppSettings {
   preferred_currency: string;
   autosave_enabled: boolean;
@@ -168,6 +401,11 @@ export interface AppSettings {
   loans: Loan[];
   running_balance_account_order: string[];
   payroll_settings: PayrollSettings;
+  holiday_calendar?: HolidayCalendarSettings;
+  sweep_rules?: SweepRule[];
+  savings_goals?: SavingsGoal[];
+  exchange_rates?: ExchangeRate[];
+  bank_import_profiles?: BankImportProfile[];
   last_sync_at?: number;
   updated_at: number;
 }
@@ -182,4 +420,107 @@ export interface ForecastSummary {
   projected_end_balance: number;
   lowest_projected_balance: number;
   lowest_balance_date: string;
+  breaches: BalanceBreach[];
+}
+
+export interface BalanceBreach {
+  account_id: string;
+  minimum_balance: number;
+  start_date: string;
+  end_date: string; // last date still below the minimum
+  lowest_balance: number;
+  lowest_date: string;
+}
+
+export interface HorizonMonth {
+  month_id: string; // YYYY-MM
+  is_virtual: boolean; // generated on the fly, not persisted
+}
+
+export interface HorizonForecast {
+  points: ForecastPoint[];
+  months: HorizonMonth[];
+  projected: Transaction[]; // card payments, interest and sweeps the forecast adds to the months' transactions
+}
+
+export interface ForecastBandPoint {
+  date: string;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface RangeForecast {
+  points: ForecastBandPoint[];
+  probability_below_zero: number; // share of simulated paths that dip below zero at any point
+  runs: number;
+}
+
+export interface SafeToSpendObligation {
+  date: string; // YYYY-MM-DD
+  description: string;
+  account_id: string;
+  amount: number; // outflow, positive
+}
+
+// Spendable today without any forecast point before the next payday dropping below the buffer
+export interface SafeToSpend {
+  account_id: string; // account id, or 'total' for total cash
+  as_of: string; // YYYY-MM-DD
+  next_payday: string | null; // null = no pay date found; the window runs to the end of the forecast
+  through: string; // last day counted; before the eve of next_payday when the forecast stops short of it
+  current_balance: number;
+  buffer: number; // minimum balance, or the sum of cash account minimums for the total
+  lowest_balance: number;
+  lowest_date: string;
+  safe_to_spend: number;
+  obligations: SafeToSpendObligation[];
+}
+
+// Amounts are spending in the preferred currency; refunds reduce them
+export interface CategoryBudgetRow {
+  category_id: string;
+  budget: number;
+  carried_in: number;
+  available: number; // budget plus what rolled over from last month
+  actual: number; // cleared or with an actual amount entered
+  planned: number; // every transaction in the month, forecast or actual
+  remaining: number; // available minus planned; negative is an overspend
+}
+
+export interface CategoryBudgetMonth {
+  month_id: string; // YYYY-MM
+  has_snapshot: boolean;
+  rows: CategoryBudgetRow[];
+}
+
+export type NetWorthSource = 'snapshot' | 'history' | 'valuation' | 'loan';
+
+export interface NetWorthItem {
+  id: string; // account or loan id
+  name: string;
+  kind: 'asset' | 'liability';
+  source: NetWorthSource;
+  balance: number; // native currency; liabilities are the amount owed
+  value: number; // preferred currency
+}
+
+export interface NetWorthMonth {
+  month_id: string; // YYYY-MM
+  assets: number;
+  liabilities: number;
+  net_worth: number;
+  items: NetWorthItem[];
+}
+
+export interface RollForwardMonthChange {
+  month_id: string; // YYYY-MM
+  changes: { account_id: string; previous: number; next: number }[];
+}
+
+export interface RollForwardReport {
+  source_month_id: string;
+  changed_months: RollForwardMonthChange[];
+  stopped_at_month_id?: string; // first pinned month that halted propagation
+  updated_at: number;
 }